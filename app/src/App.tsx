@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { WagmiProvider } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
@@ -5,22 +6,53 @@ import '@rainbow-me/rainbowkit/styles.css';
 
 import { config } from './config/wagmi';
 import { Header } from './components/Header';
+import { NetworkPrompt } from './components/NetworkPrompt';
+import { PoolSelector } from './components/PoolSelector';
 import { StakingApp } from './components/StakingApp';
+import { useNetwork } from './hooks/useNetwork';
+import { usePools } from './hooks/usePools';
 import './App.css';
 
 const queryClient = new QueryClient();
 
+function NightVault() {
+  const { network, wrongNetwork } = useNetwork();
+  const { pools, deployed, isLoading } = usePools();
+  const [selectedAddress, setSelectedAddress] = useState<`0x${string}` | null>(null);
+  const pool = pools.find((candidate) => candidate.address === selectedAddress) ?? pools[0] ?? null;
+
+  return (
+    <div className="app-root">
+      <Header pool={pool?.address} />
+      <main className="app-content">
+        {wrongNetwork ? (
+          <NetworkPrompt />
+        ) : pool ? (
+          <>
+            <PoolSelector pools={pools} selected={pool} onSelect={setSelectedAddress} />
+            {/* Remount per network and pool so no decrypted balances leak across them. */}
+            <StakingApp key={`${network.chain.id}:${pool.address}`} pool={pool} />
+          </>
+        ) : (
+          <div className="feedback-message feedback-warning">
+            {!deployed
+              ? `NightVault is not deployed on ${network.chain.name} yet. Switch to another supported network.`
+              : isLoading
+              ? 'Loading staking pools…'
+              : 'No staking pools have been created yet.'}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
 function App() {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
-          <div className="app-root">
-            <Header />
-            <main className="app-content">
-              <StakingApp />
-            </main>
-          </div>
+          <NightVault />
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
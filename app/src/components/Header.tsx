@@ -1,7 +1,23 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { useEpochEmission } from '../hooks/useEpochEmission';
+import { useRewardRate } from '../hooks/useRewardRate';
 import '../styles/Header.css';
 
-export function Header() {
+type HeaderProps = {
+  pool?: `0x${string}`;
+};
+
+export function Header({ pool }: HeaderProps) {
+  const { label: rateLabel } = useRewardRate(pool);
+  const { enabled: epochsEnabled, count: epochCount } = useEpochEmission(pool);
+  const badge = epochsEnabled
+    ? `Epoch ${epochCount} rewards`
+    : rateLabel
+    ? `${rateLabel} daily yield`
+    : pool
+    ? 'Loading rate…'
+    : 'No pool selected';
+
   return (
     <header className="header">
       <div className="header-container">
@@ -9,7 +25,7 @@ export function Header() {
           <div className="header-left">
             <h1 className="header-title">NightVault</h1>
             <span className="header-tagline">Confidential staking with instant rewards and zero balance leakage.</span>
-            <span className="header-badge">1% daily APY</span>
+            <span className="header-badge">{badge}</span>
           </div>
           <ConnectButton />
         </div>
@@ -0,0 +1,28 @@
+import { useNetwork } from '../hooks/useNetwork';
+
+export function NetworkPrompt() {
+  const { walletChainId, supportedNetworks, switchNetwork, isSwitching, switchError } = useNetwork();
+
+  return (
+    <div className="feedback-message feedback-warning network-prompt">
+      <span>
+        Your wallet is connected to chain {walletChainId}, which NightVault has no deployment on. Switch to a supported
+        network to continue.
+      </span>
+      <div className="network-prompt-actions">
+        {supportedNetworks.map(({ chain }) => (
+          <button
+            key={chain.id}
+            type="button"
+            className="action-button secondary-button"
+            onClick={() => switchNetwork(chain.id)}
+            disabled={isSwitching}
+          >
+            Switch to {chain.name}
+          </button>
+        ))}
+      </div>
+      {switchError && <span className="helper-text">{switchError.message}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import type { StakingPool } from "../hooks/usePools";
+
+type PoolSelectorProps = {
+  pools: StakingPool[];
+  selected: StakingPool | null;
+  onSelect: (address: `0x${string}`) => void;
+};
+
+function poolLabel(pool: StakingPool): string {
+  const rewards = pool.rewardToken === pool.stakingToken ? "" : ` → ${pool.rewardSymbol} rewards`;
+  return `${pool.stakingSymbol}${rewards} · ${pool.address.slice(0, 6)}…${pool.address.slice(-4)}`;
+}
+
+export function PoolSelector({ pools, selected, onSelect }: PoolSelectorProps) {
+  return (
+    <div className="pool-selector">
+      <label className="helper-text" htmlFor="pool-select">
+        Staking pool
+      </label>
+      <select
+        id="pool-select"
+        className="token-input"
+        value={selected?.address ?? ""}
+        onChange={(event) => onSelect(event.target.value as `0x${string}`)}
+        disabled={pools.length < 2}
+      >
+        {pools.map((pool) => (
+          <option key={pool.address} value={pool.address}>
+            {poolLabel(pool)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,27 +1,60 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
-import { Contract } from 'ethers';
-import { useAccount, usePublicClient } from 'wagmi';
-
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { isAddress } from 'ethers';
+import { useAccount, useReadContract, useReadContracts } from 'wagmi';
 import {
-  FTEST_TOKEN_ADDRESS,
-  FTEST_TOKEN_ABI,
-  FTEST_STAKING_ADDRESS,
-  FTEST_STAKING_ABI,
-  TOKEN_DECIMALS,
-} from '../config/contracts';
+  ERC7984Test__factory,
+  IERC7984__factory,
+  NightStaking__factory,
+  NightVaultClient,
+  createRelayerAdapter,
+  projectGrowth,
+  projectRewards,
+} from '@nightvault/sdk';
+
+import { FTEST_TOKEN_ABI, NIGHT_STAKING_ABI, TOKEN_DECIMALS } from '../config/contracts';
 import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useLockTiers } from '../hooks/useLockTiers';
+import { useNetwork } from '../hooks/useNetwork';
+import { formatDailyRate, useRewardRate } from '../hooks/useRewardRate';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { useEpochEmission } from '../hooks/useEpochEmission';
+import { useBonusRewards } from '../hooks/useBonusRewards';
+import { useProtocolTvl } from '../hooks/useProtocolTvl';
+import type { StakingPool } from '../hooks/usePools';
 import { useZamaInstance } from '../hooks/useZamaInstance';
+import { WrapUnwrapCard } from './WrapUnwrapCard';
 import '../styles/StakingApp.css';
 
+type LockedPosition = {
+  id: bigint;
+  tier: number;
+  unlockTime: number;
+  penaltyEndsAt: number;
+  principal: bigint;
+  rewards: bigint;
+  // Zero when the pool pays no bonus token.
+  bonusRewards: bigint;
+};
+
+type PendingWithdrawal = {
+  id: bigint;
+  positionId: bigint;
+  amount: bigint;
+  maturity: number;
+};
+
 type FeedbackState = {
   type: 'success' | 'error' | 'warning';
   message: string;
 } | null;
 
-const ZERO_BYTES32 = '0x0000000000000000000000000000000000000000000000000000000000000000';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 const DECIMALS = BigInt(TOKEN_DECIMALS);
 const DECIMAL_FACTOR = 10n ** DECIMALS;
-const SECONDS_PER_DAY = 86_400n;
+const PROJECTION_HORIZONS_DAYS = [30, 90, 365];
+// Claims pay out what the reward reserve holds and keep the rest owed.
+const RESERVE_SHORT_MESSAGE =
+  'Only part of your rewards was paid because the reward reserve is running low. The rest stays owed and can be claimed once the reserve is topped up.';
 
 function formatToken(raw: bigint): string {
   const sign = raw < 0n ? '-' : '';
@@ -55,6 +88,19 @@ function parseAmount(input: string): bigint {
   return BigInt(sanitizedInteger) * DECIMAL_FACTOR + BigInt(paddedFraction || '0');
 }
 
+// Mirrors NightStaking._chargePenalty: what an early unstake of `amount` withholds for the reward reserve.
+function previewPenalty(amount: bigint, rate: bigint, rateDivisor: bigint) {
+  const penalty = (amount * rate) / rateDivisor;
+  return { amount, penalty, received: amount - penalty };
+}
+
+function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / 86_400);
+  const hours = Math.floor((seconds % 86_400) / 3_600);
+  const minutes = Math.floor((seconds % 3_600) / 60);
+  return days > 0 ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m ${seconds % 60}s`;
+}
+
 function toReadableTimestamp(timestamp: number | null): string {
   if (!timestamp) {
     return 'No accrual recorded yet';
@@ -62,13 +108,104 @@ function toReadableTimestamp(timestamp: number | null): string {
   return new Date(timestamp * 1000).toLocaleString();
 }
 
-export function StakingApp() {
-  const { address, isConnected } = useAccount();
-  const publicClient = usePublicClient();
+type StakingAppProps = {
+  pool: StakingPool;
+};
+
+export function StakingApp({ pool }: StakingAppProps) {
+  const { address, chainId, isConnected } = useAccount();
   const signerPromise = useEthersSigner();
+  const { network } = useNetwork();
+  const { ftestToken: faucetToken, wrapper: wrapperAddress } = network.contracts;
   const { instance, isLoading: zamaLoading, error: zamaError } = useZamaInstance();
+  // One signature covers every contract this view decrypts from, including the wrap card's wrapper.
+  const {
+    decrypt: decryptWithSession,
+    expiresAt: decryptionSessionExpiresAt,
+    endSession: endDecryptionSession,
+  } = useDecryptionSession({
+    instance,
+    signerPromise,
+    address,
+    chainId,
+    contracts: [pool.address, pool.stakingToken, wrapperAddress],
+  });
+  const { dailyRate, rateDivisor, perSecond, label: rateLabel } = useRewardRate(pool.address);
+  const { tiers: lockTiers } = useLockTiers(pool.address);
+  const {
+    tvl,
+    revealedAt: tvlRevealedAt,
+    nextRevealAt: nextTvlRevealAt,
+    awaitingReveal: awaitingTvlReveal,
+    awaitReveal: awaitTvlReveal,
+  } = useProtocolTvl(pool.address);
+  const epochs = useEpochEmission(pool.address);
+  const bonus = useBonusRewards(pool.address);
+  const { data: pausedData, refetch: refetchPaused } = useReadContract({
+    address: pool.address,
+    abi: NIGHT_STAKING_ABI,
+    functionName: 'paused',
+  });
+  const paused = pausedData === true;
+  const { data: unbondingData } = useReadContract({
+    address: pool.address,
+    abi: NIGHT_STAKING_ABI,
+    functionName: 'unbondingPeriod',
+  });
+  const unbondingPeriod = unbondingData !== undefined ? Number(unbondingData) : 0;
+  const { data: penaltyData, refetch: refetchPenalty } = useReadContracts({
+    contracts: [
+      { address: pool.address, abi: NIGHT_STAKING_ABI, functionName: 'earlyUnstakePenaltyRate' },
+      {
+        address: pool.address,
+        abi: NIGHT_STAKING_ABI,
+        functionName: 'earlyUnstakePenaltyEndsAt',
+        args: address ? [address, 0n] : undefined,
+      },
+    ],
+    allowFailure: false,
+    query: { enabled: !!address },
+  });
+  const penaltyRate = penaltyData ? BigInt(penaltyData[0]) : 0n;
+  const penaltyEndsAt = penaltyData ? Number(penaltyData[1]) : 0;
+  const { data: auditorsData, refetch: refetchAuditors } = useReadContract({
+    address: pool.address,
+    abi: NIGHT_STAKING_ABI,
+    functionName: 'getAuditors',
+    args: address ? [address] : undefined,
+    query: { enabled: !!address },
+  });
+  const auditors = (auditorsData as readonly string[] | undefined) ?? [];
+  // The faucet only mints fTEST; pools on other tokens are funded elsewhere.
+  const hasFaucet = pool.stakingToken.toLowerCase() === faucetToken.toLowerCase();
+  // Rewards can only be restaked when they are paid in the token being staked.
+  const compoundable = pool.rewardToken.toLowerCase() === pool.stakingToken.toLowerCase();
+  const stakeSymbol = pool.stakingSymbol;
+  const rewardSymbol = pool.rewardSymbol;
+  const { data: faucetData, refetch: refetchFaucet } = useReadContracts({
+    contracts: [
+      {
+        address: faucetToken,
+        abi: FTEST_TOKEN_ABI,
+        functionName: 'nextMintAt',
+        args: address ? [address] : undefined,
+      },
+      {
+        address: faucetToken,
+        abi: FTEST_TOKEN_ABI,
+        functionName: 'mintAllowance',
+        args: address ? [address] : undefined,
+      },
+    ],
+    allowFailure: false,
+    query: { enabled: !!address && hasFaucet },
+  });
+  const nextMintAt = faucetData ? Number(faucetData[0]) : 0;
+  const mintAllowance = faucetData ? BigInt(faucetData[1]) : null;
 
   const [stakeInput, setStakeInput] = useState('');
+  const [stakeTier, setStakeTier] = useState(0);
+  const [stakeViaOperator, setStakeViaOperator] = useState(false);
   const [unstakeInput, setUnstakeInput] = useState('');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [activeAction, setActiveAction] = useState<string | null>(null);
@@ -79,117 +216,182 @@ export function StakingApp() {
   const [walletRaw, setWalletRaw] = useState<bigint>(0n);
   const [stakedRaw, setStakedRaw] = useState<bigint>(0n);
   const [rewardsRaw, setRewardsRaw] = useState<bigint>(0n);
-  const [pendingRaw, setPendingRaw] = useState<bigint>(0n);
+  const [bonusRewardsRaw, setBonusRewardsRaw] = useState<bigint>(0n);
+  const [bonusAccruedAt, setBonusAccruedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [autoCompound, setAutoCompound] = useState(false);
+  const [positions, setPositions] = useState<LockedPosition[]>([]);
+  const [withdrawals, setWithdrawals] = useState<PendingWithdrawal[]>([]);
+  const [auditorInput, setAuditorInput] = useState('');
+  const [moveSource, setMoveSource] = useState('0');
+  const [moveRecipient, setMoveRecipient] = useState('');
+  const [moveTarget, setMoveTarget] = useState('');
+
+  // Once epochs run, the fixed rate no longer accrues and epoch shares are only known after settlement.
+  const pendingRaw = useMemo(
+    () =>
+      epochs.enabled
+        ? rewardsRaw
+        : projectRewards(stakedRaw, rewardsRaw, lastAccruedAt, now, dailyRate, rateDivisor, perSecond),
+    [dailyRate, epochs.enabled, lastAccruedAt, now, perSecond, rateDivisor, rewardsRaw, stakedRaw],
+  );
 
-  const canInteract = useMemo(() => isConnected && !!address && !!instance && !!signerPromise, [address, instance, isConnected, signerPromise]);
+  // Bonus rewards always accrue per second, at their own rate.
+  const pendingBonusRaw = useMemo(
+    () =>
+      projectRewards(stakedRaw, bonusRewardsRaw, bonusAccruedAt, now, bonus.dailyRate, bonus.rateDivisor, true),
+    [bonus.dailyRate, bonus.rateDivisor, bonusAccruedAt, bonusRewardsRaw, now, stakedRaw],
+  );
 
-  const resetFeedback = () => setFeedback(null);
+  // Unsettled epoch shares are encrypted until claimed, so claiming stays available while epochs run.
+  const nothingToClaim = pendingRaw === 0n && !epochs.enabled;
 
-  const refreshBalances = useCallback(async () => {
-    if (!address || !publicClient || !instance) {
+  const hasPositions = positions.length > 0;
+  const hasWithdrawals = withdrawals.length > 0;
+  const maturedWithdrawals = withdrawals.filter((withdrawal) => withdrawal.maturity <= now);
+  const tvlRevealCoolingDown = nextTvlRevealAt > now;
+  const mintCoolingDown = nextMintAt > now;
+  const penaltyActive = penaltyRate > 0n && penaltyEndsAt > now;
+  const epochRunning = epochs.enabled && epochs.nextEpochAt > now;
+
+  useEffect(() => {
+    // Tick only when something on screen moves between refreshes: per-second accrual or countdowns.
+    if (
+      !perSecond &&
+      !bonus.dailyRate &&
+      !hasPositions &&
+      !hasWithdrawals &&
+      !tvlRevealCoolingDown &&
+      !mintCoolingDown &&
+      !penaltyActive &&
+      !epochRunning
+    ) {
       return;
     }
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1_000);
+    return () => clearInterval(timer);
+  }, [
+    bonus.dailyRate,
+    epochRunning,
+    hasPositions,
+    hasWithdrawals,
+    mintCoolingDown,
+    penaltyActive,
+    perSecond,
+    tvlRevealCoolingDown,
+  ]);
+
+  const lockedPrincipal = useMemo(() => positions.reduce((total, position) => total + position.principal, 0n), [positions]);
+  const queuedPrincipal = useMemo(
+    () => withdrawals.reduce((total, withdrawal) => total + withdrawal.amount, 0n),
+    [withdrawals],
+  );
 
-    if (!signerPromise) {
-      setFeedback({ type: 'warning', message: 'Connect your wallet to decrypt balances.' });
-      return;
+  const growthProjection = useMemo(() => {
+    if (epochs.enabled || dailyRate === null || !rateDivisor) {
+      return [];
     }
+    const base = stakedRaw + rewardsRaw;
+    return PROJECTION_HORIZONS_DAYS.map((days) => ({ days, ...projectGrowth(base, dailyRate, rateDivisor, days) }));
+  }, [dailyRate, epochs.enabled, rateDivisor, rewardsRaw, stakedRaw]);
 
-    setIsRefreshing(true);
-    resetFeedback();
+  const yieldLabel = epochs.enabled
+    ? `a share of ${formatToken(epochs.budget)} ${pool.rewardSymbol} every ${formatDuration(epochs.length)}`
+    : `${rateLabel ?? '…'} daily interest`;
 
+  const unstakePenaltyPreview = useMemo(() => {
+    if (!penaltyActive || !rateDivisor) {
+      return null;
+    }
+    let amount = 0n;
     try {
-      const [stakeData, walletHandle] = await Promise.all([
-        publicClient.readContract({
-          address: FTEST_STAKING_ADDRESS,
-          abi: FTEST_STAKING_ABI,
-          functionName: 'getStake',
-          args: [address],
-        }),
-        publicClient.readContract({
-          address: FTEST_TOKEN_ADDRESS,
-          abi: FTEST_TOKEN_ABI,
-          functionName: 'confidentialBalanceOf',
-          args: [address],
-        }),
-      ]);
-
-      const [principalHandle, rewardsHandle, lastAccrued] = stakeData as readonly [string, string, bigint];
-
-      const handlePairs: Array<{ handle: string; contractAddress: string }> = [];
-      const handleLookup = new Map<string, 'principal' | 'rewards' | 'wallet'>();
-
-      if (principalHandle !== ZERO_BYTES32) {
-        handlePairs.push({ handle: principalHandle, contractAddress: FTEST_STAKING_ADDRESS });
-        handleLookup.set(principalHandle, 'principal');
-      }
+      amount = parseAmount(unstakeInput);
+    } catch {
+      // Preview the rate alone until the input parses.
+    }
+    return { ...previewPenalty(amount, penaltyRate, rateDivisor), rateLabel: formatDailyRate(penaltyRate, rateDivisor) };
+  }, [penaltyActive, penaltyRate, rateDivisor, unstakeInput]);
 
-      if (rewardsHandle !== ZERO_BYTES32) {
-        handlePairs.push({ handle: rewardsHandle, contractAddress: FTEST_STAKING_ADDRESS });
-        handleLookup.set(rewardsHandle, 'rewards');
-      }
+  const canInteract = useMemo(() => isConnected && !!address && !!instance && !!signerPromise, [address, instance, isConnected, signerPromise]);
 
-      if (walletHandle !== ZERO_BYTES32) {
-        handlePairs.push({ handle: walletHandle as string, contractAddress: FTEST_TOKEN_ADDRESS });
-        handleLookup.set(walletHandle as string, 'wallet');
-      }
+  const resetFeedback = () => setFeedback(null);
 
-      const signer = await signerPromise;
-      if (!signer) {
-        throw new Error('Wallet signer not available. Please reconnect your wallet.');
+  const decryptHandles = useCallback(
+    async (handlePairs: Array<{ handle: string; contractAddress: string }>) => {
+      if (!address || !instance || !signerPromise) {
+        throw new Error('Connect your wallet to decrypt balances.');
       }
+      return decryptWithSession(handlePairs);
+    },
+    [address, decryptWithSession, instance, signerPromise],
+  );
 
-      const decryptedValues: Record<string, string> = {};
-
-      if (handlePairs.length > 0) {
-        const keypair = instance.generateKeypair();
-        const startTimestamp = Math.floor(Date.now() / 1000).toString();
-        const durationDays = '10';
-        const contractAddresses = Array.from(new Set(handlePairs.map((item) => item.contractAddress)));
+  // Encrypts through the instance and decrypts through the shared session, so this asks for no extra signatures.
+  const getClient = useCallback(async () => {
+    const signer = await signerPromise;
+    if (!signer || !address || !instance) {
+      throw new Error('Wallet signer is unavailable.');
+    }
+    return new NightVaultClient(
+      {
+        pool: NightStaking__factory.connect(pool.address, signer),
+        stakingToken: IERC7984__factory.connect(pool.stakingToken, signer),
+        faucet: ERC7984Test__factory.connect(faucetToken, signer),
+      },
+      createRelayerAdapter(instance, signer, decryptWithSession),
+      address,
+    );
+  }, [address, decryptWithSession, faucetToken, instance, pool.address, pool.stakingToken, signerPromise]);
 
-        const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
-        const signature = await signer.signTypedData(
-          eip712.domain,
-          { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-          eip712.message,
-        );
+  const refreshBalances = useCallback(async () => {
+    if (!address || !instance) {
+      return;
+    }
 
-        const result = await instance.userDecrypt(
-          handlePairs,
-          keypair.privateKey,
-          keypair.publicKey,
-          signature.replace('0x', ''),
-          contractAddresses,
-          address,
-          startTimestamp,
-          durationDays,
-        );
+    if (!signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to decrypt balances.' });
+      return;
+    }
 
-        Object.assign(decryptedValues, result);
-      }
+    setIsRefreshing(true);
+    resetFeedback();
+    refetchPaused();
+    refetchPenalty();
 
-      const principalRaw = handleLookup.has(principalHandle)
-        ? BigInt(decryptedValues[principalHandle as string] ?? '0')
-        : 0n;
-      const rewardsRawValue = handleLookup.has(rewardsHandle)
-        ? BigInt(decryptedValues[rewardsHandle as string] ?? '0')
-        : 0n;
-      const walletRawValue = handleLookup.has(walletHandle as string)
-        ? BigInt(decryptedValues[walletHandle as string] ?? '0')
-        : 0n;
-
-      const lastAccruedNumber = Number(lastAccrued);
-      const now = BigInt(Math.floor(Date.now() / 1000));
-      const elapsedSeconds = lastAccruedNumber > 0 ? now - BigInt(lastAccruedNumber) : 0n;
-      const elapsedDays = elapsedSeconds / SECONDS_PER_DAY;
-      const additionalRewards = elapsedDays > 0n ? (principalRaw * elapsedDays) / 100n : 0n;
-      const pendingValue = rewardsRawValue + additionalRewards;
-
-      setWalletRaw(walletRawValue);
-      setStakedRaw(principalRaw);
-      setRewardsRaw(rewardsRawValue);
-      setPendingRaw(pendingValue);
-      setLastAccruedAt(lastAccruedNumber > 0 ? lastAccruedNumber : null);
+    try {
+      // One request decrypts the wallet, every position and every withdrawal, so the wallet signs only once.
+      const portfolio = await (await getClient()).getPortfolio();
+
+      // One reward entry per token: the pool's reward token first, then the bonus token if one is set.
+      const [rewardEntry, bonusEntry] = portfolio.flexible.rewards;
+
+      setWalletRaw(portfolio.balance);
+      setStakedRaw(portfolio.flexible.principal);
+      setRewardsRaw(rewardEntry.amount);
+      setBonusRewardsRaw(bonusEntry ? bonusEntry.amount : 0n);
+      setBonusAccruedAt(bonusEntry && bonusEntry.lastAccrued > 0n ? Number(bonusEntry.lastAccrued) : null);
+      setNow(Math.floor(Date.now() / 1000));
+      setLastAccruedAt(rewardEntry.lastAccrued > 0n ? Number(rewardEntry.lastAccrued) : null);
+      setAutoCompound(portfolio.autoCompound);
+      setPositions(
+        portfolio.positions.map((position) => ({
+          id: position.id,
+          tier: position.tier,
+          unlockTime: Number(position.unlockTime),
+          penaltyEndsAt: Number(position.penaltyEndsAt),
+          principal: position.principal,
+          rewards: position.rewards[0].amount,
+          bonusRewards: position.rewards[1]?.amount ?? 0n,
+        })),
+      );
+      setWithdrawals(
+        portfolio.withdrawals.map((withdrawal) => ({
+          id: withdrawal.id,
+          positionId: withdrawal.positionId,
+          amount: withdrawal.amount,
+          maturity: Number(withdrawal.maturity),
+        })),
+      );
       setLastSyncedAt(new Date().toLocaleTimeString());
 
       setFeedback({ type: 'success', message: 'Balances refreshed.' });
@@ -200,13 +402,23 @@ export function StakingApp() {
     } finally {
       setIsRefreshing(false);
     }
-  }, [address, instance, publicClient, signerPromise]);
+  }, [address, getClient, instance, refetchPaused, refetchPenalty, signerPromise]);
 
+  // Decrypt once per account, chain and pool; afterwards only actions and the Refresh button do, so the
+  // automatic refresh never replaces an action's feedback.
+  const autoRefreshedFor = useRef<string | null>(null);
   useEffect(() => {
-    if (canInteract && !isRefreshing) {
-      refreshBalances();
+    if (!canInteract) {
+      autoRefreshedFor.current = null;
+      return;
     }
-  }, [canInteract, isRefreshing, refreshBalances]);
+    const scope = `${address}:${chainId}:${pool.address}`;
+    if (autoRefreshedFor.current === scope) {
+      return;
+    }
+    autoRefreshedFor.current = scope;
+    refreshBalances();
+  }, [address, canInteract, chainId, pool.address, refreshBalances]);
 
   const formatDisplay = useCallback((raw: bigint) => formatToken(raw), []);
 
@@ -220,15 +432,11 @@ export function StakingApp() {
     setActiveAction('mint');
 
     try {
-      const signer = await signerPromise;
-      if (!signer) {
-        throw new Error('Wallet signer is unavailable.');
-      }
-
-      const token = new Contract(FTEST_TOKEN_ADDRESS, FTEST_TOKEN_ABI, signer);
-      const tx = await token.mintFree();
+      const client = await getClient();
+      const tx = await client.mint();
       await tx.wait();
-      setFeedback({ type: 'success', message: 'Minted 100 fTEST successfully.' });
+      setFeedback({ type: 'success', message: `Minted ${formatToken(mintAllowance ?? 0n)} fTEST successfully.` });
+      await refetchFaucet();
       await refreshBalances();
     } catch (error) {
       console.error('Mint failed', error);
@@ -237,7 +445,7 @@ export function StakingApp() {
     } finally {
       setActiveAction(null);
     }
-  }, [canInteract, refreshBalances, signerPromise]);
+  }, [canInteract, getClient, mintAllowance, refetchFaucet, refreshBalances, signerPromise]);
 
   const handleAuthorize = useCallback(async () => {
     if (!canInteract || !signerPromise) {
@@ -249,14 +457,8 @@ export function StakingApp() {
     setActiveAction('authorize');
 
     try {
-      const signer = await signerPromise;
-      if (!signer) {
-        throw new Error('Wallet signer is unavailable.');
-      }
-
-      const token = new Contract(FTEST_TOKEN_ADDRESS, FTEST_TOKEN_ABI, signer);
-      const until = BigInt(Math.floor(Date.now() / 1000)) + 365n * SECONDS_PER_DAY;
-      const tx = await token.setOperator(FTEST_STAKING_ADDRESS, until);
+      const client = await getClient();
+      const tx = await client.authorize();
       await tx.wait();
       setFeedback({ type: 'success', message: 'Staking contract authorized for transfers.' });
     } catch (error) {
@@ -266,11 +468,11 @@ export function StakingApp() {
     } finally {
       setActiveAction(null);
     }
-  }, [canInteract, signerPromise]);
+  }, [canInteract, getClient, signerPromise]);
 
   const handleStake = useCallback(async () => {
     if (!canInteract || !signerPromise || !instance) {
-      setFeedback({ type: 'warning', message: 'Connect your wallet to stake fTEST.' });
+      setFeedback({ type: 'warning', message: `Connect your wallet to stake ${stakeSymbol}.` });
       return;
     }
 
@@ -287,22 +489,25 @@ export function StakingApp() {
 
       setActiveAction('stake');
 
-      const signer = await signerPromise;
-      if (!signer) {
-        throw new Error('Wallet signer is unavailable.');
-      }
-
-      const buffer = instance.createEncryptedInput(FTEST_STAKING_ADDRESS, address!);
-      buffer.add64(rawAmount);
-      const encrypted = await buffer.encrypt();
-
-      const stakingContract = new Contract(FTEST_STAKING_ADDRESS, FTEST_STAKING_ABI, signer);
-      const tx = await stakingContract.stake(encrypted.handles[0], encrypted.inputProof);
+      const client = await getClient();
+      const tx = await client.stake(rawAmount, { tier: stakeTier, viaOperator: stakeViaOperator });
       await tx.wait();
 
-      setFeedback({ type: 'success', message: 'Stake submitted successfully.' });
-      setStakeInput('');
+      const moved = await client.lastStakeResult();
+      // Refresh first so the balance sync does not overwrite the outcome message.
       await refreshBalances();
+      if (moved === 0n) {
+        setFeedback({
+          type: 'warning',
+          message: stakeViaOperator
+            ? `The transaction confirmed but no ${stakeSymbol} moved. Check your balance and the staking authorization.`
+            : `The transaction confirmed but no ${stakeSymbol} moved. Check your wallet balance.`,
+        });
+      } else {
+        const prefix = stakeTier === 0 ? 'Stake confirmed' : 'Locked position opened';
+        setFeedback({ type: 'success', message: `${prefix}: ${formatToken(moved)} ${stakeSymbol} deposited.` });
+        setStakeInput('');
+      }
     } catch (error) {
       console.error('Stake failed', error);
       const message = error instanceof Error ? error.message : 'Staking failed';
@@ -310,7 +515,18 @@ export function StakingApp() {
     } finally {
       setActiveAction(null);
     }
-  }, [address, canInteract, instance, refreshBalances, signerPromise, stakeInput, walletRaw]);
+  }, [
+    canInteract,
+    getClient,
+    instance,
+    refreshBalances,
+    signerPromise,
+    stakeInput,
+    stakeSymbol,
+    stakeTier,
+    stakeViaOperator,
+    walletRaw,
+  ]);
 
   const handleUnstake = useCallback(async () => {
     if (!canInteract || !signerPromise || !instance) {
@@ -331,30 +547,364 @@ export function StakingApp() {
 
       setActiveAction('unstake');
 
-      const signer = await signerPromise;
-      if (!signer) {
-        throw new Error('Wallet signer is unavailable.');
+      const client = await getClient();
+      const tx = await client.unstake(rawAmount);
+      await tx.wait();
+
+      const moved = await client.lastUnstakeResult();
+      await refreshBalances();
+      if (moved === 0n) {
+        setFeedback({
+          type: 'warning',
+          message: 'The transaction confirmed but nothing was withdrawn: the amount exceeded your staked principal.',
+        });
+      } else {
+        setFeedback({
+          type: 'success',
+          message:
+            unbondingPeriod > 0
+              ? `Unstake confirmed: ${formatToken(moved)} ${stakeSymbol} queued for withdrawal in ${formatDuration(unbondingPeriod)}.`
+              : `Unstake confirmed: ${formatToken(moved)} ${stakeSymbol} returned.`,
+        });
+        setUnstakeInput('');
+      }
+    } catch (error) {
+      console.error('Unstake failed', error);
+      const message = error instanceof Error ? error.message : 'Unstaking failed';
+      setFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [
+    canInteract,
+    getClient,
+    instance,
+    refreshBalances,
+    signerPromise,
+    stakeSymbol,
+    stakedRaw,
+    unbondingPeriod,
+    unstakeInput,
+  ]);
+
+  const handleWithdrawPosition = useCallback(
+    async (position: LockedPosition) => {
+      if (!canInteract || !signerPromise || !instance) {
+        setFeedback({ type: 'warning', message: 'Connect your wallet to withdraw.' });
+        return;
+      }
+
+      resetFeedback();
+      setActiveAction(`withdraw-${position.id}`);
+
+      try {
+        const client = await getClient();
+        const tx = await client.unstake(position.principal, position.id);
+        await tx.wait();
+
+        const moved = await client.lastUnstakeResult();
+        await refreshBalances();
+        setFeedback(
+          moved === 0n
+            ? { type: 'warning', message: `The transaction confirmed but nothing left position #${position.id}.` }
+            : {
+                type: 'success',
+                message:
+                  unbondingPeriod > 0
+                    ? `Position #${position.id} unstaked: ${formatToken(moved)} ${stakeSymbol} queued for withdrawal.`
+                    : `Position #${position.id} withdrawn: ${formatToken(moved)} ${stakeSymbol} returned.`,
+              },
+        );
+      } catch (error) {
+        console.error('Position withdrawal failed', error);
+        const message = error instanceof Error ? error.message : 'Failed to withdraw position';
+        setFeedback({ type: 'error', message });
+      } finally {
+        setActiveAction(null);
+      }
+    },
+    [canInteract, getClient, instance, refreshBalances, signerPromise, stakeSymbol, unbondingPeriod],
+  );
+
+  const handleWithdrawMatured = useCallback(async () => {
+    if (!canInteract || !signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to withdraw.' });
+      return;
+    }
+
+    resetFeedback();
+    setActiveAction('withdraw-matured');
+
+    try {
+      const client = await getClient();
+      const tx = await client.withdraw();
+      await tx.wait();
+
+      await refreshBalances();
+      setFeedback({ type: 'success', message: 'Matured withdrawals released to your wallet.' });
+    } catch (error) {
+      console.error('Withdrawal failed', error);
+      const message = error instanceof Error ? error.message : 'Failed to withdraw';
+      setFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [canInteract, getClient, refreshBalances, signerPromise]);
+
+  const handleCancelWithdrawal = useCallback(
+    async (withdrawal: PendingWithdrawal) => {
+      if (!canInteract || !signerPromise) {
+        setFeedback({ type: 'warning', message: 'Connect your wallet to cancel a withdrawal.' });
+        return;
+      }
+
+      resetFeedback();
+      setActiveAction(`cancel-${withdrawal.id}`);
+
+      try {
+        const client = await getClient();
+        const tx = await client.cancelWithdrawal(withdrawal.id);
+        await tx.wait();
+
+        await refreshBalances();
+        setFeedback({ type: 'success', message: `Withdrawal #${withdrawal.id} returned to your stake.` });
+      } catch (error) {
+        console.error('Cancel withdrawal failed', error);
+        const message = error instanceof Error ? error.message : 'Failed to cancel withdrawal';
+        setFeedback({ type: 'error', message });
+      } finally {
+        setActiveAction(null);
+      }
+    },
+    [canInteract, getClient, refreshBalances, signerPromise],
+  );
+
+  const handleMovePosition = useCallback(async () => {
+    if (!canInteract || !signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to move a position.' });
+      return;
+    }
+
+    resetFeedback();
+
+    try {
+      const recipient = moveRecipient.trim();
+      if (!isAddress(recipient)) {
+        throw new Error('Enter a valid recipient address.');
+      }
+      if (recipient.toLowerCase() === address?.toLowerCase()) {
+        throw new Error('The recipient must be a different address.');
+      }
+      const target = moveSource === '0' ? '' : moveTarget.trim();
+      if (target !== '' && !/^\d+$/.test(target)) {
+        throw new Error('The target position must be a position id.');
       }
 
-      const buffer = instance.createEncryptedInput(FTEST_STAKING_ADDRESS, address!);
-      buffer.add64(rawAmount);
-      const encrypted = await buffer.encrypt();
+      setActiveAction('move-position');
 
-      const stakingContract = new Contract(FTEST_STAKING_ADDRESS, FTEST_STAKING_ABI, signer);
-      const tx = await stakingContract.unstake(encrypted.handles[0], encrypted.inputProof);
+      const client = await getClient();
+      const positionId = BigInt(moveSource);
+      const tx = await client.movePosition(positionId, recipient, target === '' ? undefined : BigInt(target));
       await tx.wait();
 
-      setFeedback({ type: 'success', message: 'Unstake transaction confirmed.' });
-      setUnstakeInput('');
+      setMoveSource('0');
+      setMoveRecipient('');
+      setMoveTarget('');
       await refreshBalances();
+      setFeedback({
+        type: 'success',
+        message: `${positionId === 0n ? 'Flexible stake' : `Position #${positionId}`} moved to ${recipient}.`,
+      });
     } catch (error) {
-      console.error('Unstake failed', error);
-      const message = error instanceof Error ? error.message : 'Unstaking failed';
+      console.error('Move position failed', error);
+      const message = error instanceof Error ? error.message : 'Failed to move position';
+      setFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [address, canInteract, getClient, moveRecipient, moveSource, moveTarget, refreshBalances, signerPromise]);
+
+  const handleGrantAuditor = useCallback(async () => {
+    if (!canInteract || !signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to manage auditors.' });
+      return;
+    }
+
+    resetFeedback();
+
+    try {
+      const auditor = auditorInput.trim();
+      if (!isAddress(auditor)) {
+        throw new Error('Enter a valid auditor address.');
+      }
+
+      setActiveAction('grant-auditor');
+
+      const client = await getClient();
+      const tx = await client.grantAuditor(auditor);
+      await tx.wait();
+
+      await refetchAuditors();
+      setAuditorInput('');
+      setFeedback({ type: 'success', message: `${auditor} can now decrypt your stake.` });
+    } catch (error) {
+      console.error('Grant auditor failed', error);
+      const message = error instanceof Error ? error.message : 'Failed to grant auditor';
+      setFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [auditorInput, canInteract, getClient, refetchAuditors, signerPromise]);
+
+  const handleRevokeAuditor = useCallback(
+    async (auditor: string) => {
+      if (!canInteract || !signerPromise) {
+        setFeedback({ type: 'warning', message: 'Connect your wallet to manage auditors.' });
+        return;
+      }
+
+      resetFeedback();
+      setActiveAction(`revoke-${auditor}`);
+
+      try {
+        const client = await getClient();
+        const tx = await client.revokeAuditor(auditor);
+        await tx.wait();
+
+        await refetchAuditors();
+        setFeedback({ type: 'success', message: `${auditor} will not receive future stake updates.` });
+      } catch (error) {
+        console.error('Revoke auditor failed', error);
+        const message = error instanceof Error ? error.message : 'Failed to revoke auditor';
+        setFeedback({ type: 'error', message });
+      } finally {
+        setActiveAction(null);
+      }
+    },
+    [canInteract, getClient, refetchAuditors, signerPromise],
+  );
+
+  const handleClaimPosition = useCallback(
+    async (position: LockedPosition) => {
+      if (!canInteract || !signerPromise) {
+        setFeedback({ type: 'warning', message: 'Connect your wallet to claim rewards.' });
+        return;
+      }
+
+      resetFeedback();
+      setActiveAction(`claim-${position.id}`);
+
+      try {
+        const client = await getClient();
+        const tx = await client.claim(position.id);
+        await tx.wait();
+
+        const fullyPaid = await client.lastClaimResult();
+        await refreshBalances();
+        setFeedback(
+          fullyPaid
+            ? { type: 'success', message: `Rewards for position #${position.id} claimed.` }
+            : { type: 'warning', message: `Position #${position.id}: ${RESERVE_SHORT_MESSAGE}` },
+        );
+      } catch (error) {
+        console.error('Position claim failed', error);
+        const message = error instanceof Error ? error.message : 'Failed to claim position rewards';
+        setFeedback({ type: 'error', message });
+      } finally {
+        setActiveAction(null);
+      }
+    },
+    [canInteract, getClient, refreshBalances, signerPromise],
+  );
+
+  const handleEmergencyWithdraw = useCallback(async () => {
+    if (!canInteract || !signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to withdraw.' });
+      return;
+    }
+
+    resetFeedback();
+    setActiveAction('emergency-withdraw');
+
+    try {
+      const client = await getClient();
+      const tx = await client.emergencyWithdraw();
+      await tx.wait();
+
+      const returned = await client.lastUnstakeResult();
+      await refreshBalances();
+      setFeedback({
+        type: 'success',
+        message: `Emergency withdrawal confirmed: ${formatToken(returned)} ${stakeSymbol} of principal returned.`,
+      });
+    } catch (error) {
+      console.error('Emergency withdrawal failed', error);
+      const message = error instanceof Error ? error.message : 'Emergency withdrawal failed';
+      setFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [canInteract, getClient, refreshBalances, signerPromise, stakeSymbol]);
+
+  const handleRevealTvl = useCallback(async () => {
+    if (!isConnected || !signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to request a TVL reveal.' });
+      return;
+    }
+
+    resetFeedback();
+    setActiveAction('reveal-tvl');
+
+    try {
+      const client = await getClient();
+      const tx = await client.requestTvlReveal();
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new Error('The reveal transaction was not mined.');
+      }
+      const block = await receipt.getBlock();
+
+      await awaitTvlReveal(block.timestamp);
+      setFeedback({
+        type: 'success',
+        message: 'TVL reveal requested. The decryption oracle will publish the total shortly.',
+      });
+    } catch (error) {
+      console.error('TVL reveal failed', error);
+      const message = error instanceof Error ? error.message : 'TVL reveal failed';
       setFeedback({ type: 'error', message });
     } finally {
       setActiveAction(null);
     }
-  }, [address, canInteract, instance, refreshBalances, signerPromise, stakedRaw, unstakeInput]);
+  }, [awaitTvlReveal, getClient, isConnected, signerPromise]);
+
+  const handleStartEpoch = useCallback(async () => {
+    if (!isConnected || !signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to start the next epoch.' });
+      return;
+    }
+
+    resetFeedback();
+    setActiveAction('start-epoch');
+
+    try {
+      const client = await getClient();
+      const tx = await client.startEpoch();
+      await tx.wait();
+
+      await epochs.awaitEpoch(epochs.count + 1);
+      setFeedback({
+        type: 'success',
+        message: 'Epoch started. The decryption oracle will reveal the staked total to fix everyone\'s share.',
+      });
+    } catch (error) {
+      console.error('Starting the epoch failed', error);
+      const message = error instanceof Error ? error.message : 'Starting the epoch failed';
+      setFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [epochs, getClient, isConnected, signerPromise]);
 
   const handleClaim = useCallback(async () => {
     if (!canInteract || !signerPromise) {
@@ -362,7 +912,7 @@ export function StakingApp() {
       return;
     }
 
-    if (pendingRaw === 0n) {
+    if (nothingToClaim) {
       setFeedback({ type: 'warning', message: 'No rewards available to claim.' });
       return;
     }
@@ -371,17 +921,17 @@ export function StakingApp() {
     setActiveAction('claim');
 
     try {
-      const signer = await signerPromise;
-      if (!signer) {
-        throw new Error('Wallet signer is unavailable.');
-      }
-
-      const stakingContract = new Contract(FTEST_STAKING_ADDRESS, FTEST_STAKING_ABI, signer);
-      const tx = await stakingContract.claimRewards();
+      const client = await getClient();
+      const tx = await client.claim();
       await tx.wait();
 
-      setFeedback({ type: 'success', message: 'Rewards claimed successfully.' });
+      const fullyPaid = await client.lastClaimResult();
       await refreshBalances();
+      setFeedback(
+        fullyPaid
+          ? { type: 'success', message: 'Rewards claimed successfully.' }
+          : { type: 'warning', message: RESERVE_SHORT_MESSAGE },
+      );
     } catch (error) {
       console.error('Claim failed', error);
       const message = error instanceof Error ? error.message : 'Failed to claim rewards';
@@ -389,7 +939,99 @@ export function StakingApp() {
     } finally {
       setActiveAction(null);
     }
-  }, [canInteract, pendingRaw, refreshBalances, signerPromise]);
+  }, [canInteract, getClient, nothingToClaim, refreshBalances, signerPromise]);
+
+  const handleClaimBonus = useCallback(
+    async (positionId: bigint) => {
+      if (!canInteract || !signerPromise) {
+        setFeedback({ type: 'warning', message: 'Connect your wallet to claim rewards.' });
+        return;
+      }
+
+      resetFeedback();
+      setActiveAction(`claim-bonus-${positionId}`);
+
+      try {
+        const client = await getClient();
+        const tx = await client.claimBonus(positionId);
+        await tx.wait();
+
+        await refreshBalances();
+        setFeedback({
+          type: 'success',
+          message:
+            positionId === 0n
+              ? `${bonus.symbol} bonus rewards claimed successfully.`
+              : `${bonus.symbol} bonus rewards for position #${positionId} claimed.`,
+        });
+      } catch (error) {
+        console.error('Bonus claim failed', error);
+        const message = error instanceof Error ? error.message : 'Failed to claim bonus rewards';
+        setFeedback({ type: 'error', message });
+      } finally {
+        setActiveAction(null);
+      }
+    },
+    [bonus.symbol, canInteract, getClient, refreshBalances, signerPromise],
+  );
+
+  const handleToggleAutoCompound = useCallback(async () => {
+    if (!canInteract || !signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to change compounding.' });
+      return;
+    }
+
+    resetFeedback();
+    setActiveAction('auto-compound');
+
+    try {
+      const client = await getClient();
+      const tx = await client.setAutoCompound(!autoCompound);
+      await tx.wait();
+
+      setFeedback({
+        type: 'success',
+        message: autoCompound ? 'Auto-compound disabled.' : 'Auto-compound enabled. Rewards will be restaked on every interaction.',
+      });
+      await refreshBalances();
+    } catch (error) {
+      console.error('Auto-compound toggle failed', error);
+      const message = error instanceof Error ? error.message : 'Failed to update auto-compound';
+      setFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [autoCompound, canInteract, getClient, refreshBalances, signerPromise]);
+
+  const handleCompound = useCallback(async () => {
+    if (!canInteract || !signerPromise) {
+      setFeedback({ type: 'warning', message: 'Connect your wallet to restake rewards.' });
+      return;
+    }
+
+    if (nothingToClaim) {
+      setFeedback({ type: 'warning', message: 'No rewards available to restake.' });
+      return;
+    }
+
+    resetFeedback();
+    setActiveAction('compound');
+
+    try {
+      const client = await getClient();
+      const tx = await client.compound();
+      await tx.wait();
+
+      setFeedback({ type: 'success', message: 'Rewards restaked into your principal.' });
+      await refreshBalances();
+    } catch (error) {
+      console.error('Compound failed', error);
+      const message = error instanceof Error ? error.message : 'Failed to restake rewards';
+      setFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [canInteract, getClient, nothingToClaim, refreshBalances, signerPromise]);
 
   if (!isConnected) {
     return (
@@ -398,9 +1040,9 @@ export function StakingApp() {
           <h2 className="staking-title">Private staking</h2>
           <p className="staking-subtitle">Connect your wallet to mint, stake, and harvest confidential yield.</p>
           <ul className="staking-highlights">
-            <li>1% daily interest that compounds automatically</li>
+            <li>{epochs.enabled ? `Stakers split ${yieldLabel}` : `${yieldLabel} set on-chain by the protocol owner`}</li>
             <li>Encrypted balances and rewards powered by Zama FHEVM</li>
-            <li>Withdraw and claim at any moment with no lock-ups</li>
+            <li>Stay flexible or lock for 7, 30, or 90 days to boost your yield</li>
           </ul>
         </div>
         <div className="feedback-message feedback-warning">
@@ -415,11 +1057,20 @@ export function StakingApp() {
       <div className="staking-header">
         <div className="refresh-row">
           <div>
-            <h2 className="staking-title">fTEST staking dashboard</h2>
-            <p className="staking-subtitle">Stake to earn 1% daily interest, paid in fTEST.</p>
+            <h2 className="staking-title">{stakeSymbol} staking dashboard</h2>
+            <p className="staking-subtitle">
+              Stake to earn {yieldLabel}, paid in {rewardSymbol}.
+            </p>
             <ul className="staking-highlights">
               <li>Encrypted balances never leave your custody</li>
-              <li>Rewards accrue every full day without claiming</li>
+              <li>
+                {epochs.enabled
+                  ? 'Each epoch is split pro-rata by stake'
+                  : perSecond
+                  ? 'Rewards accrue every second'
+                  : 'Rewards accrue every full day'}{' '}
+                without claiming
+              </li>
               <li>Instant minting, staking, unstaking, and claiming flows</li>
             </ul>
           </div>
@@ -434,6 +1085,18 @@ export function StakingApp() {
         </div>
         <span className="timestamp">Last accrual update: {toReadableTimestamp(lastAccruedAt)}</span>
         {lastSyncedAt && <span className="status-tag">Synced at {lastSyncedAt}</span>}
+        {decryptionSessionExpiresAt ? (
+          <div className="session-row">
+            <span className="status-tag">
+              Decryption session valid until {new Date(decryptionSessionExpiresAt * 1000).toLocaleString()}
+            </span>
+            <button type="button" className="action-button secondary-button" onClick={endDecryptionSession}>
+              End session
+            </button>
+          </div>
+        ) : (
+          isConnected && <span className="status-tag status-tag-muted">Next decryption asks for a wallet signature</span>
+        )}
         {zamaError && <span className="feedback-message feedback-error">{zamaError}</span>}
       </div>
 
@@ -451,131 +1114,586 @@ export function StakingApp() {
         </div>
       )}
 
+      {paused && (
+        <div className="feedback-message feedback-warning">
+          NightVault is paused. Staking, unstaking, and claiming are disabled. You can still withdraw your principal
+          with an emergency withdrawal, which forfeits any pending rewards.
+        </div>
+      )}
+
       <section className="metrics-grid">
         <div className="metric-card">
           <span className="metric-icon" aria-hidden="true">💼</span>
           <span className="metric-label">Wallet balance</span>
-          <span className="metric-value">{formatDisplay(walletRaw)} fTEST</span>
+          <span className="metric-value">{formatDisplay(walletRaw)} {stakeSymbol}</span>
           <span className="metric-footnote">Tokens available to stake</span>
         </div>
         <div className="metric-card">
           <span className="metric-icon" aria-hidden="true">🛡️</span>
           <span className="metric-label">Staked principal</span>
-          <span className="metric-value">{formatDisplay(stakedRaw)} fTEST</span>
-          <span className="metric-footnote">Currently deposited in NightVault</span>
+          <span className="metric-value">{formatDisplay(stakedRaw)} {stakeSymbol}</span>
+          <span className="metric-footnote">
+            {hasPositions ? `Flexible deposit, plus ${formatDisplay(lockedPrincipal)} ${stakeSymbol} locked` : 'Currently deposited in NightVault'}
+          </span>
         </div>
         <div className="metric-card">
           <span className="metric-icon" aria-hidden="true">🎁</span>
           <span className="metric-label">Accrued rewards</span>
-          <span className="metric-value">{formatDisplay(rewardsRaw)} fTEST</span>
+          <span className="metric-value">{formatDisplay(rewardsRaw)} {rewardSymbol}</span>
           <span className="metric-footnote">Ready to claim now</span>
         </div>
         <div className="metric-card">
           <span className="metric-icon" aria-hidden="true">📈</span>
           <span className="metric-label">Projected claim</span>
-          <span className="metric-value">{formatDisplay(pendingRaw)} fTEST</span>
-          <span className="metric-footnote">Includes earned interest for completed days</span>
+          <span className="metric-value">{formatDisplay(pendingRaw)} {rewardSymbol}</span>
+          <span className="metric-footnote">
+            {epochs.enabled
+              ? 'Finished epochs are credited on your next interaction'
+              : perSecond
+              ? 'Includes interest earned up to this second'
+              : 'Includes earned interest for completed days'}
+          </span>
         </div>
-      </section>
-
-      <section className="actions-grid">
-        <div className="action-card">
-          <div>
-            <h3 className="action-title">Mint starter balance</h3>
-            <p className="action-description">Claim a free allocation of 100 fTEST to experiment with the protocol.</p>
+        {bonus.token && (
+          <div className="metric-card">
+            <span className="metric-icon" aria-hidden="true">✨</span>
+            <span className="metric-label">{bonus.symbol} bonus rewards</span>
+            <span className="metric-value">
+              {formatDisplay(pendingBonusRaw)} {bonus.symbol}
+            </span>
+            <span className="metric-footnote">
+              {bonus.dailyRate ? `${bonus.label} daily, accrued every second` : 'Bonus accrual is paused'} · claimed
+              separately
+            </span>
+            <button
+              type="button"
+              className="action-button secondary-button"
+              onClick={() => handleClaimBonus(0n)}
+              disabled={paused || pendingBonusRaw === 0n || activeAction !== null || zamaLoading}
+            >
+              {activeAction === 'claim-bonus-0' ? 'Claiming…' : `Claim ${bonus.symbol}`}
+            </button>
           </div>
+        )}
+        <div className="metric-card">
+          <span className="metric-icon" aria-hidden="true">🌐</span>
+          <span className="metric-label">Protocol TVL</span>
+          <span className="metric-value">{tvlRevealedAt > 0 && tvl !== null ? `${formatDisplay(tvl)} ${stakeSymbol}` : '—'}</span>
+          <span className="metric-footnote">
+            {awaitingTvlReveal
+              ? 'Waiting for the decryption oracle…'
+              : tvlRevealedAt > 0
+              ? `Principal plus rewards, revealed ${new Date(tvlRevealedAt * 1000).toLocaleString()}`
+              : 'Not revealed yet'}
+          </span>
           <button
             type="button"
-            className="action-button"
-            onClick={handleMint}
-            disabled={activeAction === 'mint' || zamaLoading}
+            className="action-button secondary-button"
+            onClick={handleRevealTvl}
+            disabled={!isConnected || awaitingTvlReveal || tvlRevealCoolingDown || activeAction !== null}
           >
-            {activeAction === 'mint' ? 'Minting…' : 'Mint 100 fTEST'}
+            {activeAction === 'reveal-tvl'
+              ? 'Requesting…'
+              : tvlRevealCoolingDown
+              ? `Next reveal in ${formatDuration(nextTvlRevealAt - now)}`
+              : 'Reveal TVL'}
           </button>
         </div>
+        {epochs.enabled && (
+          <div className="metric-card">
+            <span className="metric-icon" aria-hidden="true">⏳</span>
+            <span className="metric-label">Epoch {epochs.count}</span>
+            <span className="metric-value">
+              {formatDisplay(epochs.budget)} {rewardSymbol}
+            </span>
+            <span className="metric-footnote">
+              {epochs.awaitingEpoch || !epochs.finalized
+                ? 'Waiting for the decryption oracle to reveal the staked total…'
+                : `Split across ${formatDisplay(epochs.totalPrincipal ?? 0n)} ${stakeSymbol} staked at its start`}
+            </span>
+            <button
+              type="button"
+              className="action-button secondary-button"
+              onClick={handleStartEpoch}
+              disabled={!isConnected || epochRunning || !epochs.finalized || epochs.awaitingEpoch || activeAction !== null}
+            >
+              {activeAction === 'start-epoch'
+                ? 'Starting…'
+                : epochRunning
+                ? `Next epoch in ${formatDuration(epochs.nextEpochAt - now)}`
+                : 'Start next epoch'}
+            </button>
+          </div>
+        )}
+      </section>
 
-        <div className="action-card">
-          <div>
-            <h3 className="action-title">Authorize staking</h3>
-            <p className="action-description">
-              Allow the staking contract to move your encrypted fTEST while you are staked.
+      {paused ? (
+        <section className="actions-grid">
+          <div className="action-card">
+            <div>
+              <h3 className="action-title">Emergency withdrawal</h3>
+              <p className="action-description">
+                Return the principal of your flexible stake, every locked position, and any pending withdrawal,
+                regardless of lock-ups. All pending rewards are forfeited.
+              </p>
+            </div>
+            <p className="helper-text">
+              Principal: {formatDisplay(stakedRaw + lockedPrincipal + queuedPrincipal)} {stakeSymbol} · Forfeited rewards:{' '}
+              {formatDisplay(rewardsRaw + positions.reduce((total, position) => total + position.rewards, 0n))} {rewardSymbol}
             </p>
+            <button
+              type="button"
+              className="action-button danger-button"
+              onClick={handleEmergencyWithdraw}
+              disabled={activeAction === 'emergency-withdraw' || zamaLoading}
+            >
+              {activeAction === 'emergency-withdraw' ? 'Withdrawing…' : 'Withdraw principal'}
+            </button>
+          </div>
+        </section>
+      ) : (
+        <section className="actions-grid">
+          {hasFaucet && (
+            <div className="action-card">
+              <div>
+                <h3 className="action-title">Mint starter balance</h3>
+                <p className="action-description">
+                  Claim a free allocation of fTEST to experiment with the protocol, once a day up to a lifetime cap.
+                </p>
+              </div>
+              {mintAllowance === 0n ? (
+                <p className="helper-text">This address has reached the faucet's lifetime cap.</p>
+              ) : (
+                mintCoolingDown && (
+                  <p className="helper-text">
+                    Next mint possible {new Date(nextMintAt * 1000).toLocaleString()} (in {formatDuration(nextMintAt - now)}).
+                  </p>
+                )
+              )}
+              <button
+                type="button"
+                className="action-button"
+                onClick={handleMint}
+                disabled={activeAction === 'mint' || zamaLoading || mintCoolingDown || mintAllowance === 0n}
+              >
+                {activeAction === 'mint'
+                  ? 'Minting…'
+                  : mintAllowance !== null && mintAllowance > 0n
+                  ? `Mint ${formatToken(mintAllowance)} fTEST`
+                  : 'Mint fTEST'}
+              </button>
+            </div>
+          )}
+
+          <div className="action-card">
+            <div>
+              <h3 className="action-title">Authorize staking</h3>
+              <p className="action-description">
+                Optional. Staking sends your {stakeSymbol} in a single transfer; approve NightVault as an operator only if you
+                prefer to stake through operator transfers.
+              </p>
+            </div>
+            <button
+              type="button"
+              className="action-button secondary-button"
+              onClick={handleAuthorize}
+              disabled={activeAction === 'authorize' || zamaLoading}
+            >
+              {activeAction === 'authorize' ? 'Authorizing…' : 'Approve NightVault'}
+            </button>
           </div>
-          <button
-            type="button"
-            className="action-button secondary-button"
-            onClick={handleAuthorize}
-            disabled={activeAction === 'authorize' || zamaLoading}
-          >
-            {activeAction === 'authorize' ? 'Authorizing…' : 'Approve NightVault'}
-          </button>
-        </div>
 
-        <div className="action-card">
-          <div className="action-header">
-            <h3 className="action-title">Stake fTEST</h3>
-            <p className="action-description">Encrypt the amount you want to deposit and start earning immediately.</p>
+          <div className="action-card">
+            <div className="action-header">
+              <h3 className="action-title">Stake {stakeSymbol}</h3>
+              <p className="action-description">
+                Encrypt the amount you want to deposit and start earning immediately. Locking it up boosts the yield.
+              </p>
+            </div>
+            <div className="action-input-group">
+              <input
+                type="text"
+                className="token-input"
+                value={stakeInput}
+                onChange={(event) => setStakeInput(event.target.value)}
+                placeholder="Amount (e.g. 25.5)"
+              />
+              <select
+                className="token-input"
+                value={stakeTier}
+                onChange={(event) => setStakeTier(Number(event.target.value))}
+              >
+                {lockTiers.length === 0 && <option value={0}>Flexible</option>}
+                {lockTiers.map(({ tier, label, boostLabel }) => (
+                  <option key={tier} value={tier}>
+                    {label} · {boostLabel} rewards
+                  </option>
+                ))}
+              </select>
+              <p className="helper-text">Available: {formatDisplay(walletRaw)} {stakeSymbol}</p>
+              <label className="checkbox-row">
+                <input
+                  type="checkbox"
+                  checked={stakeViaOperator}
+                  onChange={(event) => setStakeViaOperator(event.target.checked)}
+                />
+                Stake through operator approval instead of a single transfer
+              </label>
+            </div>
+            <div className="action-footer">
+              <button
+                type="button"
+                className="action-button"
+                onClick={handleStake}
+                disabled={activeAction === 'stake' || zamaLoading}
+              >
+                {activeAction === 'stake' ? 'Submitting…' : 'Stake now'}
+              </button>
+            </div>
           </div>
-          <div className="action-input-group">
-            <input
-              type="text"
-              className="token-input"
-              value={stakeInput}
-              onChange={(event) => setStakeInput(event.target.value)}
-              placeholder="Amount (e.g. 25.5)"
-            />
-            <p className="helper-text">Available: {formatDisplay(walletRaw)} fTEST</p>
+
+          <div className="action-card">
+            <div className="action-header">
+              <h3 className="action-title">Unstake funds</h3>
+              <p className="action-description">
+                Withdraw part of your flexible principal without touching rewards. Locked positions are withdrawn below once
+                they unlock.
+                {unbondingPeriod > 0 &&
+                  ` Unstaked funds wait ${formatDuration(unbondingPeriod)} in the withdrawal queue and stop earning rewards.`}
+              </p>
+            </div>
+            <div className="action-input-group">
+              <input
+                type="text"
+                className="token-input"
+                value={unstakeInput}
+                onChange={(event) => setUnstakeInput(event.target.value)}
+                placeholder="Amount to unstake"
+              />
+              <p className="helper-text">Deposited: {formatDisplay(stakedRaw)} {stakeSymbol}</p>
+              {unstakePenaltyPreview && (
+                <p className="helper-text">
+                  A {unstakePenaltyPreview.rateLabel} early-unstake penalty applies until{' '}
+                  {new Date(penaltyEndsAt * 1000).toLocaleString()} (in {formatDuration(penaltyEndsAt - now)})
+                  {unstakePenaltyPreview.amount > 0n
+                    ? `: you would receive ${formatDisplay(unstakePenaltyPreview.received)} ${stakeSymbol} and ${formatDisplay(unstakePenaltyPreview.penalty)} ${stakeSymbol} would go to the reward reserve.`
+                    : '.'}
+                </p>
+              )}
+            </div>
+            <button
+              type="button"
+              className="action-button secondary-button"
+              onClick={handleUnstake}
+              disabled={activeAction === 'unstake' || zamaLoading}
+            >
+              {activeAction === 'unstake' ? 'Processing…' : 'Unstake'}
+            </button>
           </div>
-          <div className="action-footer">
+
+          <div className="action-card">
+            <div>
+              <h3 className="action-title">Claim rewards</h3>
+              <p className="action-description">
+                Collect accrued rewards at any time.{' '}
+                {epochs.enabled
+                  ? 'Your share of each finished epoch is credited when you claim.'
+                  : `Interest accrues ${perSecond ? 'every second' : 'once per full day'}.`}
+              </p>
+            </div>
+            <p className="helper-text">Claimable now: {formatDisplay(pendingRaw)} {rewardSymbol}</p>
             <button
               type="button"
-              className="action-button"
-              onClick={handleStake}
-              disabled={activeAction === 'stake' || zamaLoading}
+              className="action-button danger-button"
+              onClick={handleClaim}
+              disabled={activeAction === 'claim' || nothingToClaim || zamaLoading}
             >
-              {activeAction === 'stake' ? 'Submitting…' : 'Stake now'}
+              {activeAction === 'claim' ? 'Claiming…' : 'Claim rewards'}
             </button>
           </div>
-        </div>
 
-        <div className="action-card">
-          <div className="action-header">
-            <h3 className="action-title">Unstake funds</h3>
-            <p className="action-description">Withdraw part of your encrypted principal without touching rewards.</p>
+          {compoundable && (
+            <div className="action-card">
+              <div>
+                <h3 className="action-title">Compound rewards</h3>
+                <p className="action-description">
+                  Restake rewards into your principal so they earn interest too. With auto-compound on, rewards are restaked
+                  every time you interact with NightVault.
+                </p>
+              </div>
+              <div className="toggle-row">
+                <span className={`status-tag ${autoCompound ? '' : 'status-tag-muted'}`}>
+                  Auto-compound {autoCompound ? 'on' : 'off'}
+                </span>
+                <button
+                  type="button"
+                  className="action-button secondary-button"
+                  onClick={handleToggleAutoCompound}
+                  disabled={activeAction === 'auto-compound' || zamaLoading}
+                >
+                  {activeAction === 'auto-compound' ? 'Updating…' : autoCompound ? 'Turn off' : 'Turn on'}
+                </button>
+              </div>
+              {growthProjection.length > 0 && (
+                <table className="projection-table">
+                  <thead>
+                    <tr>
+                      <th>Horizon</th>
+                      <th>Simple</th>
+                      <th>Compounded</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {growthProjection.map(({ days, simple, compounded }) => (
+                      <tr key={days}>
+                        <td>{days} days</td>
+                        <td>{formatDisplay(simple)}</td>
+                        <td>{formatDisplay(compounded)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="helper-text">Projection at the current rate, compounding once a day, in {stakeSymbol}.</p>
+              <button
+                type="button"
+                className="action-button"
+                onClick={handleCompound}
+                disabled={activeAction === 'compound' || nothingToClaim || zamaLoading}
+              >
+                {activeAction === 'compound' ? 'Restaking…' : 'Restake now'}
+              </button>
+            </div>
+          )}
+
+          {wrapperAddress !== ZERO_ADDRESS && (
+            <WrapUnwrapCard instance={instance} decryptHandles={decryptHandles} onFeedback={setFeedback} />
+          )}
+        </section>
+      )}
+
+      {hasPositions && (
+        <section className="positions-section">
+          <div className="positions-header">
+            <h3 className="action-title">Locked positions</h3>
+            <span className="status-tag">{formatDisplay(lockedPrincipal)} {stakeSymbol} locked</span>
           </div>
-          <div className="action-input-group">
-            <input
-              type="text"
-              className="token-input"
-              value={unstakeInput}
-              onChange={(event) => setUnstakeInput(event.target.value)}
-              placeholder="Amount to unstake"
-            />
-            <p className="helper-text">Deposited: {formatDisplay(stakedRaw)} fTEST</p>
+          <ul className="positions-list">
+            {positions.map((position) => {
+              const tierInfo = lockTiers.find(({ tier }) => tier === position.tier);
+              const unlocked = now >= position.unlockTime;
+              // The penalty matters only if its window outlasts the lock, since the position cannot be withdrawn before.
+              const penaltyPreview =
+                penaltyRate > 0n && rateDivisor && position.penaltyEndsAt > Math.max(now, position.unlockTime)
+                  ? {
+                      ...previewPenalty(position.principal, penaltyRate, rateDivisor),
+                      rateLabel: formatDailyRate(penaltyRate, rateDivisor),
+                    }
+                  : null;
+              return (
+                <li key={position.id.toString()} className="position-row">
+                  <div className="position-details">
+                    <span className="position-title">
+                      #{position.id.toString()} · {tierInfo ? `${tierInfo.label} (${tierInfo.boostLabel})` : 'Locked'}
+                    </span>
+                    <span className="helper-text">
+                      Principal {formatDisplay(position.principal)} {stakeSymbol} · Rewards {formatDisplay(position.rewards)} {rewardSymbol}
+                      {bonus.token && ` · Bonus ${formatDisplay(position.bonusRewards)} ${bonus.symbol}`}
+                    </span>
+                    <span className={`status-tag ${unlocked ? '' : 'status-tag-muted'}`}>
+                      {unlocked ? 'Unlocked' : `Unlocks in ${formatDuration(position.unlockTime - now)}`}
+                    </span>
+                    {penaltyPreview && (
+                      <span className="helper-text">
+                        A {penaltyPreview.rateLabel} early-unstake penalty applies until{' '}
+                        {new Date(position.penaltyEndsAt * 1000).toLocaleString()} (in{' '}
+                        {formatDuration(position.penaltyEndsAt - now)}): withdrawing would return{' '}
+                        {formatDisplay(penaltyPreview.received)} {stakeSymbol} and send{' '}
+                        {formatDisplay(penaltyPreview.penalty)} {stakeSymbol} to the reward reserve.
+                      </span>
+                    )}
+                  </div>
+                  {!paused && (
+                    <div className="position-actions">
+                      <button
+                        type="button"
+                        className="action-button secondary-button"
+                        onClick={() => handleWithdrawPosition(position)}
+                        disabled={!unlocked || position.principal === 0n || activeAction !== null || zamaLoading}
+                      >
+                        {activeAction === `withdraw-${position.id}` ? 'Withdrawing…' : 'Withdraw'}
+                      </button>
+                      <button
+                        type="button"
+                        className="action-button danger-button"
+                        onClick={() => handleClaimPosition(position)}
+                        disabled={activeAction !== null || zamaLoading}
+                      >
+                        {activeAction === `claim-${position.id}` ? 'Claiming…' : 'Claim'}
+                      </button>
+                      {/* Bonus keeps accruing after the last refresh, so it can be claimed while its rate runs. */}
+                      {bonus.token && (
+                        <button
+                          type="button"
+                          className="action-button secondary-button"
+                          onClick={() => handleClaimBonus(position.id)}
+                          disabled={
+                            (!bonus.dailyRate && position.bonusRewards === 0n) || activeAction !== null || zamaLoading
+                          }
+                        >
+                          {activeAction === `claim-bonus-${position.id}` ? 'Claiming…' : `Claim ${bonus.symbol}`}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      {hasWithdrawals && (
+        <section className="positions-section">
+          <div className="positions-header">
+            <h3 className="action-title">Pending withdrawals</h3>
+            {!paused && (
+              <button
+                type="button"
+                className="action-button"
+                onClick={handleWithdrawMatured}
+                disabled={maturedWithdrawals.length === 0 || activeAction !== null || zamaLoading}
+              >
+                {activeAction === 'withdraw-matured'
+                  ? 'Withdrawing…'
+                  : `Withdraw ${formatDisplay(maturedWithdrawals.reduce((total, withdrawal) => total + withdrawal.amount, 0n))} ${stakeSymbol}`}
+              </button>
+            )}
           </div>
+          <ul className="positions-list">
+            {withdrawals.map((withdrawal) => {
+              const matured = now >= withdrawal.maturity;
+              return (
+                <li key={withdrawal.id.toString()} className="position-row">
+                  <div className="position-details">
+                    <span className="position-title">
+                      #{withdrawal.id.toString()} · {formatDisplay(withdrawal.amount)} {stakeSymbol}
+                    </span>
+                    <span className="helper-text">
+                      From {withdrawal.positionId === 0n ? 'your flexible stake' : `position #${withdrawal.positionId}`}
+                    </span>
+                    <span className={`status-tag ${matured ? '' : 'status-tag-muted'}`}>
+                      {matured ? 'Ready to withdraw' : `Matures in ${formatDuration(withdrawal.maturity - now)}`}
+                    </span>
+                  </div>
+                  {!paused && (
+                    <div className="position-actions">
+                      <button
+                        type="button"
+                        className="action-button secondary-button"
+                        onClick={() => handleCancelWithdrawal(withdrawal)}
+                        disabled={activeAction !== null || zamaLoading}
+                      >
+                        {activeAction === `cancel-${withdrawal.id}` ? 'Cancelling…' : 'Cancel'}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      <section className="positions-section">
+        <div className="positions-header">
+          <h3 className="action-title">Move position</h3>
+        </div>
+        <p className="action-description">
+          Hand a position to another address, for example when rotating wallets. Principal, rewards, and the lock travel
+          with it. The flexible stake always merges into the recipient's flexible stake; a locked position can also be
+          merged into one of the recipient's positions with the same tier that unlocks no earlier.
+        </p>
+        <div className="input-row">
+          <select className="token-input" value={moveSource} onChange={(event) => setMoveSource(event.target.value)}>
+            <option value="0">Flexible stake</option>
+            {positions.map((position) => (
+              <option key={position.id.toString()} value={position.id.toString()}>
+                Position #{position.id.toString()}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className="token-input"
+            value={moveRecipient}
+            onChange={(event) => setMoveRecipient(event.target.value)}
+            placeholder="Recipient address (0x…)"
+          />
+          <input
+            type="text"
+            className="token-input"
+            value={moveTarget}
+            onChange={(event) => setMoveTarget(event.target.value)}
+            placeholder="Merge into position # (optional)"
+            disabled={moveSource === '0'}
+          />
           <button
             type="button"
-            className="action-button secondary-button"
-            onClick={handleUnstake}
-            disabled={activeAction === 'unstake' || zamaLoading}
+            className="action-button"
+            onClick={handleMovePosition}
+            disabled={activeAction !== null || paused}
           >
-            {activeAction === 'unstake' ? 'Processing…' : 'Unstake'}
+            {activeAction === 'move-position' ? 'Moving…' : 'Move position'}
           </button>
         </div>
+      </section>
 
-        <div className="action-card">
-          <div>
-            <h3 className="action-title">Claim rewards</h3>
-            <p className="action-description">Collect accrued interest at any time. Interest compounds once per full day.</p>
-          </div>
-          <p className="helper-text">Claimable now: {formatDisplay(pendingRaw)} fTEST</p>
+      <section className="positions-section">
+        <div className="positions-header">
+          <h3 className="action-title">Auditors</h3>
+          <span className={`status-tag ${auditors.length > 0 ? '' : 'status-tag-muted'}`}>
+            {auditors.length > 0 ? `${auditors.length} granted` : 'None granted'}
+          </span>
+        </div>
+        <p className="action-description">
+          Auditors can decrypt your principal, rewards, and pending withdrawals, including every future update. Revoking
+          stops new updates from being shared; values an auditor could already decrypt stay readable to them.
+        </p>
+        {auditors.length > 0 && (
+          <ul className="positions-list">
+            {auditors.map((auditor) => (
+              <li key={auditor} className="position-row">
+                <span className="position-title">{auditor}</span>
+                <div className="position-actions">
+                  <button
+                    type="button"
+                    className="action-button secondary-button"
+                    onClick={() => handleRevokeAuditor(auditor)}
+                    disabled={activeAction !== null}
+                  >
+                    {activeAction === `revoke-${auditor}` ? 'Revoking…' : 'Revoke'}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="input-row">
+          <input
+            type="text"
+            className="token-input"
+            value={auditorInput}
+            onChange={(event) => setAuditorInput(event.target.value)}
+            placeholder="Auditor address (0x…)"
+          />
           <button
             type="button"
-            className="action-button danger-button"
-            onClick={handleClaim}
-            disabled={activeAction === 'claim' || pendingRaw === 0n || zamaLoading}
+            className="action-button"
+            onClick={handleGrantAuditor}
+            disabled={activeAction !== null}
           >
-            {activeAction === 'claim' ? 'Claiming…' : 'Claim rewards'}
+            {activeAction === 'grant-auditor' ? 'Granting…' : 'Grant access'}
           </button>
         </div>
       </section>
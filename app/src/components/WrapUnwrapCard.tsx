@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Contract, formatUnits, parseUnits } from 'ethers';
+import { erc20Abi } from 'viem';
+import { useAccount, useReadContract, useReadContracts } from 'wagmi';
+
+import { CONFIDENTIAL_WRAPPER_ABI } from '../config/contracts';
+import { useEthersSigner } from '../hooks/useEthersSigner';
+import { useNetwork } from '../hooks/useNetwork';
+
+type Feedback = { type: 'success' | 'error' | 'warning'; message: string };
+
+type EncryptionInstance = {
+  createEncryptedInput(contractAddress: string, userAddress: string): {
+    add64(value: bigint): void;
+    encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+  };
+};
+
+type WrapUnwrapCardProps = {
+  instance: EncryptionInstance | null;
+  decryptHandles: (handlePairs: Array<{ handle: string; contractAddress: string }>) => Promise<Record<string, string>>;
+  onFeedback: (feedback: Feedback | null) => void;
+};
+
+const ZERO_BYTES32 = '0x0000000000000000000000000000000000000000000000000000000000000000';
+const WRAPPED_DECIMALS = 6;
+// The oracle usually answers within a few blocks; give up watching after this long.
+const UNWRAP_WATCH_MS = 180_000;
+const UNWRAP_POLL_INTERVAL_MS = 5_000;
+
+export function WrapUnwrapCard({ instance, decryptHandles, onFeedback }: WrapUnwrapCardProps) {
+  const { address } = useAccount();
+  const signerPromise = useEthersSigner();
+  const { network } = useNetwork();
+  const wrapperAddress = network.contracts.wrapper;
+
+  const [amountInput, setAmountInput] = useState('');
+  const [activeAction, setActiveAction] = useState<'wrap' | 'unwrap' | 'decrypt' | null>(null);
+  const [wrappedRaw, setWrappedRaw] = useState<bigint | null>(null);
+  // Underlying balance at the time of the last unwrap; the release has landed once it grows.
+  const [unwrapPendingFrom, setUnwrapPendingFrom] = useState<bigint | null>(null);
+
+  const { data: underlyingAddress } = useReadContract({
+    address: wrapperAddress,
+    abi: CONFIDENTIAL_WRAPPER_ABI,
+    functionName: 'underlying',
+  });
+  const { data: underlyingData, refetch: refetchUnderlying } = useReadContracts({
+    contracts: [
+      { address: underlyingAddress, abi: erc20Abi, functionName: 'symbol' },
+      { address: underlyingAddress, abi: erc20Abi, functionName: 'decimals' },
+      { address: underlyingAddress, abi: erc20Abi, functionName: 'balanceOf', args: address ? [address] : undefined },
+    ],
+    allowFailure: false,
+    query: {
+      enabled: !!underlyingAddress && !!address,
+      refetchInterval: unwrapPendingFrom !== null ? UNWRAP_POLL_INTERVAL_MS : false,
+    },
+  });
+  const underlyingSymbol = underlyingData ? underlyingData[0] : 'ERC20';
+  const underlyingDecimals = underlyingData ? underlyingData[1] : 18;
+  const underlyingBalance = underlyingData ? underlyingData[2] : null;
+
+  useEffect(() => {
+    if (unwrapPendingFrom === null) {
+      return;
+    }
+    if (underlyingBalance !== null && underlyingBalance > unwrapPendingFrom) {
+      setUnwrapPendingFrom(null);
+      setWrappedRaw(null);
+      onFeedback({
+        type: 'success',
+        message: `Unwrap released ${formatUnits(underlyingBalance - unwrapPendingFrom, underlyingDecimals)} ${underlyingSymbol}.`,
+      });
+      return;
+    }
+    const timer = setTimeout(() => setUnwrapPendingFrom(null), UNWRAP_WATCH_MS);
+    return () => clearTimeout(timer);
+  }, [onFeedback, underlyingBalance, underlyingDecimals, underlyingSymbol, unwrapPendingFrom]);
+
+  const handleDecrypt = useCallback(async () => {
+    if (!address || !signerPromise) {
+      onFeedback({ type: 'warning', message: 'Connect your wallet to decrypt your wrapped balance.' });
+      return;
+    }
+
+    onFeedback(null);
+    setActiveAction('decrypt');
+
+    try {
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Wallet signer is unavailable.');
+      }
+      const wrapper = new Contract(wrapperAddress, CONFIDENTIAL_WRAPPER_ABI, signer);
+      const handle: string = await wrapper.confidentialBalanceOf(address);
+      if (handle === ZERO_BYTES32) {
+        setWrappedRaw(0n);
+        return;
+      }
+      const decrypted = await decryptHandles([{ handle, contractAddress: wrapperAddress }]);
+      setWrappedRaw(BigInt(decrypted[handle] ?? '0'));
+    } catch (error) {
+      console.error('Wrapped balance decryption failed', error);
+      const message = error instanceof Error ? error.message : 'Decryption failed';
+      onFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [address, decryptHandles, onFeedback, signerPromise, wrapperAddress]);
+
+  const handleWrap = useCallback(async () => {
+    if (!address || !signerPromise) {
+      onFeedback({ type: 'warning', message: 'Connect your wallet to wrap tokens.' });
+      return;
+    }
+
+    onFeedback(null);
+
+    try {
+      const amount = parseUnits(amountInput.trim() || '0', underlyingDecimals);
+      if (amount === 0n) {
+        throw new Error('Wrap amount must be greater than zero.');
+      }
+      if (underlyingBalance !== null && amount > underlyingBalance) {
+        throw new Error(`You cannot wrap more than your ${underlyingSymbol} balance.`);
+      }
+
+      setActiveAction('wrap');
+
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Wallet signer is unavailable.');
+      }
+      const underlying = new Contract(underlyingAddress as string, erc20Abi, signer);
+      const allowance: bigint = await underlying.allowance(address, wrapperAddress);
+      if (allowance < amount) {
+        const approveTx = await underlying.approve(wrapperAddress, amount);
+        await approveTx.wait();
+      }
+
+      const wrapper = new Contract(wrapperAddress, CONFIDENTIAL_WRAPPER_ABI, signer);
+      const tx = await wrapper.wrap(address, amount);
+      await tx.wait();
+
+      await refetchUnderlying();
+      setWrappedRaw(null);
+      setAmountInput('');
+      onFeedback({ type: 'success', message: `Wrapped ${formatUnits(amount, underlyingDecimals)} ${underlyingSymbol}.` });
+    } catch (error) {
+      console.error('Wrap failed', error);
+      const message = error instanceof Error ? error.message : 'Wrap failed';
+      onFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [
+    address,
+    amountInput,
+    onFeedback,
+    refetchUnderlying,
+    signerPromise,
+    underlyingAddress,
+    underlyingBalance,
+    underlyingDecimals,
+    underlyingSymbol,
+    wrapperAddress,
+  ]);
+
+  const handleUnwrap = useCallback(async () => {
+    if (!address || !signerPromise || !instance) {
+      onFeedback({ type: 'warning', message: 'Connect your wallet to unwrap tokens.' });
+      return;
+    }
+
+    onFeedback(null);
+
+    try {
+      const amount = parseUnits(amountInput.trim() || '0', WRAPPED_DECIMALS);
+      if (amount === 0n) {
+        throw new Error('Unwrap amount must be greater than zero.');
+      }
+
+      setActiveAction('unwrap');
+
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Wallet signer is unavailable.');
+      }
+      const buffer = instance.createEncryptedInput(wrapperAddress, address);
+      buffer.add64(amount);
+      const encrypted = await buffer.encrypt();
+
+      const wrapper = new Contract(wrapperAddress, CONFIDENTIAL_WRAPPER_ABI, signer);
+      const tx = await wrapper['unwrap(address,address,bytes32,bytes)'](
+        address,
+        address,
+        encrypted.handles[0],
+        encrypted.inputProof,
+      );
+      await tx.wait();
+
+      setUnwrapPendingFrom(underlyingBalance ?? 0n);
+      setWrappedRaw(null);
+      setAmountInput('');
+      onFeedback({
+        type: 'success',
+        message: `Unwrap requested. ${underlyingSymbol} is released once the decryption oracle confirms the burnt amount.`,
+      });
+    } catch (error) {
+      console.error('Unwrap failed', error);
+      const message = error instanceof Error ? error.message : 'Unwrap failed';
+      onFeedback({ type: 'error', message });
+    } finally {
+      setActiveAction(null);
+    }
+  }, [address, amountInput, instance, onFeedback, signerPromise, underlyingBalance, underlyingSymbol, wrapperAddress]);
+
+  return (
+    <div className="action-card">
+      <div className="action-header">
+        <h3 className="action-title">Wrap / Unwrap</h3>
+        <p className="action-description">
+          Turn public {underlyingSymbol} into its confidential counterpart at a fixed rate, or burn wrapped tokens to get{' '}
+          {underlyingSymbol} back after the decryption oracle confirms the amount.
+        </p>
+      </div>
+      <div className="action-input-group">
+        <input
+          type="text"
+          className="token-input"
+          value={amountInput}
+          onChange={(event) => setAmountInput(event.target.value)}
+          placeholder="Amount"
+        />
+        <p className="helper-text">
+          {underlyingSymbol}: {underlyingBalance !== null ? formatUnits(underlyingBalance, underlyingDecimals) : '—'} ·
+          Wrapped: {wrappedRaw !== null ? formatUnits(wrappedRaw, WRAPPED_DECIMALS) : 'encrypted'}
+        </p>
+        {unwrapPendingFrom !== null && <p className="helper-text">Waiting for the decryption oracle…</p>}
+      </div>
+      <div className="position-actions">
+        <button
+          type="button"
+          className="action-button"
+          onClick={handleWrap}
+          disabled={activeAction !== null}
+        >
+          {activeAction === 'wrap' ? 'Wrapping…' : 'Wrap'}
+        </button>
+        <button
+          type="button"
+          className="action-button secondary-button"
+          onClick={handleUnwrap}
+          disabled={activeAction !== null || !instance}
+        >
+          {activeAction === 'unwrap' ? 'Unwrapping…' : 'Unwrap'}
+        </button>
+        <button
+          type="button"
+          className="action-button secondary-button"
+          onClick={handleDecrypt}
+          disabled={activeAction !== null || !instance}
+        >
+          {activeAction === 'decrypt' ? 'Decrypting…' : 'Decrypt balance'}
+        </button>
+      </div>
+    </div>
+  );
+}
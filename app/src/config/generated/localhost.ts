@@ -0,0 +1,10 @@
+// Generated by `npx hardhat task:frontend-config` from deployments/localhost. Do not edit by hand.
+
+export const CHAIN_ID = 31337;
+
+export const FTEST_TOKEN_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+// Pools are read from the factory's registry rather than configured, so every pool it creates shows up in the app.
+export const NIGHT_STAKING_FACTORY_ADDRESS = '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9';
+
+export const CONFIDENTIAL_WRAPPER_ADDRESS = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
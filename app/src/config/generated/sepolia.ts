@@ -0,0 +1,10 @@
+// Generated by `npx hardhat task:frontend-config` from deployments/sepolia. Do not edit by hand.
+
+export const CHAIN_ID = 11155111;
+
+export const FTEST_TOKEN_ADDRESS = '0x1fc330DA5E41D4d926dD135670A584De6274B521';
+
+// Pools are read from the factory's registry rather than configured, so every pool it creates shows up in the app.
+export const NIGHT_STAKING_FACTORY_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export const CONFIDENTIAL_WRAPPER_ADDRESS = '0x0000000000000000000000000000000000000000';
@@ -0,0 +1,82 @@
+import type { Chain } from 'viem';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import type { FhevmInstanceConfig } from '@zama-fhe/relayer-sdk/bundle';
+
+import * as localhostDeployment from './generated/localhost';
+import * as sepoliaDeployment from './generated/sepolia';
+
+type Address = `0x${string}`;
+
+// Live networks go through Zama's relayer. A local `npx hardhat node` runs the FHEVM mock instead and
+// answers the relayer calls itself, including the one that reports the ACL, KMS and input verifier addresses.
+export type FheConfig =
+  | { kind: 'relayer'; config: FhevmInstanceConfig }
+  | {
+      kind: 'mock';
+      rpcUrl: string;
+      gatewayChainId: number;
+      verifyingContractAddressDecryption: Address;
+      verifyingContractAddressInputVerification: Address;
+    };
+
+export type NetworkConfig = {
+  chain: Chain;
+  contracts: {
+    ftestToken: Address;
+    factory: Address;
+    wrapper: Address;
+  };
+  fhe: FheConfig;
+};
+
+type Deployment = {
+  CHAIN_ID: number;
+  FTEST_TOKEN_ADDRESS: string;
+  NIGHT_STAKING_FACTORY_ADDRESS: string;
+  CONFIDENTIAL_WRAPPER_ADDRESS: string;
+};
+
+function contractsOf(deployment: Deployment): NetworkConfig['contracts'] {
+  return {
+    ftestToken: deployment.FTEST_TOKEN_ADDRESS as Address,
+    factory: deployment.NIGHT_STAKING_FACTORY_ADDRESS as Address,
+    wrapper: deployment.CONFIDENTIAL_WRAPPER_ADDRESS as Address,
+  };
+}
+
+// Every entry needs an address module generated by `npm run frontend:config`; `npm run frontend:check`
+// fails while one of them still lacks a deployed contract.
+export const NETWORKS: Record<number, NetworkConfig> = {
+  [sepoliaDeployment.CHAIN_ID]: {
+    chain: sepolia,
+    contracts: contractsOf(sepoliaDeployment),
+    fhe: { kind: 'relayer', config: SepoliaConfig },
+  },
+  [localhostDeployment.CHAIN_ID]: {
+    chain: hardhat,
+    contracts: contractsOf(localhostDeployment),
+    // Fixed by @fhevm/hardhat-plugin when it sets up the mock on the node.
+    fhe: {
+      kind: 'mock',
+      rpcUrl: hardhat.rpcUrls.default.http[0],
+      gatewayChainId: 55815,
+      verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+      verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+    },
+  },
+};
+
+// Production builds open on Sepolia; `npm run dev` opens on the local node started by `npm run dev:local`.
+export const DEFAULT_CHAIN_ID = import.meta.env.PROD ? sepolia.id : hardhat.id;
+
+export const SUPPORTED_CHAINS = [
+  NETWORKS[DEFAULT_CHAIN_ID].chain,
+  ...Object.values(NETWORKS)
+    .map((network) => network.chain)
+    .filter((chain) => chain.id !== DEFAULT_CHAIN_ID),
+] as [Chain, ...Chain[]];
+
+export function getNetwork(chainId: number | undefined): NetworkConfig | undefined {
+  return chainId !== undefined ? NETWORKS[chainId] : undefined;
+}
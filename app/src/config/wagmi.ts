@@ -1,9 +1,10 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+
+import { SUPPORTED_CHAINS } from './networks';
 
 export const config = getDefaultConfig({
   appName: 'NightVault',
   projectId: 'YOUR_PROJECT_ID', // Replace with your WalletConnect project ID
-  chains: [sepolia],
+  chains: SUPPORTED_CHAINS,
   ssr: false,
 });
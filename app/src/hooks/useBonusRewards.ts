@@ -0,0 +1,39 @@
+import { zeroAddress } from 'viem';
+import { useReadContract } from 'wagmi';
+
+import { FTEST_TOKEN_ABI, NIGHT_STAKING_ABI } from '../config/contracts';
+import { formatDailyRate } from './useRewardRate';
+
+// Mirrors NightStaking.RATE_DIVISOR, which bonus rates share with the main rate.
+const RATE_DIVISOR = 10_000n;
+
+export function useBonusRewards(pool: `0x${string}` | undefined) {
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: pool,
+    abi: NIGHT_STAKING_ABI,
+    functionName: 'getBonusRewards',
+    query: { enabled: !!pool },
+  });
+
+  const token = data && data[0] !== zeroAddress ? data[0] : undefined;
+  // Every reward token is an ERC7984, so the fTEST ABI is enough to read its symbol.
+  const { data: symbol } = useReadContract({
+    address: token,
+    abi: FTEST_TOKEN_ABI,
+    functionName: 'symbol',
+    query: { enabled: !!token },
+  });
+
+  const dailyRate = token && data ? BigInt(data[1]) : null;
+
+  return {
+    token,
+    symbol: symbol ?? (token ? `${token.slice(0, 6)}…` : ''),
+    dailyRate,
+    rateDivisor: RATE_DIVISOR,
+    label: dailyRate !== null ? formatDailyRate(dailyRate, RATE_DIVISOR) : null,
+    isLoading,
+    error,
+    refetch,
+  };
+}
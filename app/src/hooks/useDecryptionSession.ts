@@ -0,0 +1,317 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { getAddress } from 'ethers';
+import type { JsonRpcSigner } from 'ethers';
+import type { FhevmInstance, HandleContractPair } from '@zama-fhe/relayer-sdk/bundle';
+
+const STORAGE_KEY = 'nightvault.decryption-sessions';
+const KEY_DB_NAME = 'nightvault';
+const KEY_STORE_NAME = 'keys';
+const WRAPPING_KEY_ID = 'decryption-session';
+const SESSION_DURATION_DAYS = 10;
+// Sign a fresh session slightly before the relayer would start rejecting the old one.
+const RENEWAL_MARGIN_SECONDS = 5 * 60;
+
+type StoredSession = {
+  publicKey: string;
+  // AES-GCM ciphertext of the private key; the wrapping key never leaves IndexedDB.
+  encryptedPrivateKey: string;
+  iv: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+type DecryptionSession = {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+};
+
+function sessionScope(address: string, chainId: number, contracts: string[]) {
+  return `${address.toLowerCase()}:${chainId}:${contracts.join(',')}`;
+}
+
+function expiryOf(session: { startTimestamp: number; durationDays: number }) {
+  return session.startTimestamp + session.durationDays * 86_400;
+}
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function readStoredSessions(): Record<string, StoredSession> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, StoredSession>;
+  } catch {
+    return {};
+  }
+}
+
+function writeStoredSessions(sessions: Record<string, StoredSession>) {
+  if (Object.keys(sessions).length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  }
+}
+
+// Drops expired sessions and, when an address is given, every session signed by another account.
+function pruneStoredSessions(keepAddress?: string) {
+  const now = Math.floor(Date.now() / 1000);
+  const prefix = keepAddress ? `${keepAddress.toLowerCase()}:` : null;
+  const sessions = readStoredSessions();
+  const kept = Object.fromEntries(
+    Object.entries(sessions).filter(
+      ([scope, session]) => expiryOf(session) > now && (prefix === null || scope.startsWith(prefix)),
+    ),
+  );
+  writeStoredSessions(kept);
+}
+
+function openKeyStore(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// A non-extractable AES key kept in IndexedDB, so a copy of localStorage alone cannot recover private keys.
+async function getWrappingKey(): Promise<CryptoKey> {
+  const db = await openKeyStore();
+  try {
+    const existing = await new Promise<CryptoKey | undefined>((resolve, reject) => {
+      const request = db.transaction(KEY_STORE_NAME, 'readonly').objectStore(KEY_STORE_NAME).get(WRAPPING_KEY_ID);
+      request.onsuccess = () => resolve(request.result as CryptoKey | undefined);
+      request.onerror = () => reject(request.error);
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction(KEY_STORE_NAME, 'readwrite').objectStore(KEY_STORE_NAME).put(key, WRAPPING_KEY_ID);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+    return key;
+  } finally {
+    db.close();
+  }
+}
+
+async function loadSession(scope: string): Promise<DecryptionSession | null> {
+  const stored = readStoredSessions()[scope];
+  if (!stored) {
+    return null;
+  }
+  try {
+    const key = await getWrappingKey();
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+      key,
+      fromBase64(stored.encryptedPrivateKey),
+    );
+    return {
+      publicKey: stored.publicKey,
+      privateKey: new TextDecoder().decode(plaintext),
+      signature: stored.signature,
+      startTimestamp: stored.startTimestamp,
+      durationDays: stored.durationDays,
+    };
+  } catch {
+    // The wrapping key was cleared or replaced; the stored session can no longer be used.
+    return null;
+  }
+}
+
+async function saveSession(scope: string, session: DecryptionSession) {
+  try {
+    const key = await getWrappingKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(session.privateKey));
+    const sessions = readStoredSessions();
+    sessions[scope] = {
+      publicKey: session.publicKey,
+      encryptedPrivateKey: toBase64(new Uint8Array(ciphertext)),
+      iv: toBase64(iv),
+      signature: session.signature,
+      startTimestamp: session.startTimestamp,
+      durationDays: session.durationDays,
+    };
+    writeStoredSessions(sessions);
+  } catch (err) {
+    // Without IndexedDB (e.g. some private windows) the session only lives as long as the page.
+    console.warn('Decryption session could not be persisted:', err);
+  }
+}
+
+type ScopedSession = {
+  scope: string;
+  value: DecryptionSession;
+};
+
+type DecryptionSessionOptions = {
+  instance: FhevmInstance | null;
+  signerPromise: Promise<JsonRpcSigner> | undefined;
+  address: string | undefined;
+  chainId: number | undefined;
+  // Every contract the caller decrypts from; one signature covers them all.
+  contracts: string[];
+};
+
+export function useDecryptionSession({ instance, signerPromise, address, chainId, contracts }: DecryptionSessionOptions) {
+  // Checksummed and sorted so the same contract set always maps to the same stored session.
+  const contractKey = Array.from(new Set(contracts.map((contract) => getAddress(contract))))
+    .sort()
+    .join(',');
+  const contractAddresses = useMemo(() => (contractKey ? contractKey.split(',') : []), [contractKey]);
+  const scope = address && chainId ? sessionScope(address, chainId, contractAddresses) : null;
+
+  const [session, setSession] = useState<ScopedSession | null>(null);
+  // Read by obtainSession so that decrypt keeps a stable identity while sessions come and go.
+  const sessionRef = useRef<ScopedSession | null>(null);
+  const pendingRef = useRef<{ scope: string; promise: Promise<DecryptionSession> } | null>(null);
+  const active = session && session.scope === scope ? session.value : null;
+
+  const remember = useCallback((next: ScopedSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+  }, []);
+
+  // Forget sessions signed by other accounts as soon as the wallet switches to a new one.
+  useEffect(() => {
+    pruneStoredSessions(address);
+    if (sessionRef.current && sessionRef.current.scope !== scope) {
+      remember(null);
+    }
+  }, [address, remember, scope]);
+
+  // Surface a session persisted by an earlier visit so its expiry shows before the first decryption.
+  useEffect(() => {
+    if (!scope) {
+      return;
+    }
+    let mounted = true;
+    loadSession(scope).then((stored) => {
+      if (mounted && stored && expiryOf(stored) - RENEWAL_MARGIN_SECONDS > Math.floor(Date.now() / 1000)) {
+        remember({ scope, value: stored });
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [remember, scope]);
+
+  const obtainSession = useCallback(async (): Promise<DecryptionSession> => {
+    if (!instance || !signerPromise || !address || !scope) {
+      throw new Error('Connect your wallet to decrypt balances.');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const isFresh = (candidate: DecryptionSession | null): candidate is DecryptionSession =>
+      !!candidate && expiryOf(candidate) - RENEWAL_MARGIN_SECONDS > now;
+
+    const current = sessionRef.current && sessionRef.current.scope === scope ? sessionRef.current.value : null;
+    if (isFresh(current)) {
+      return current;
+    }
+    // Refreshes and the wrap card can decrypt at the same time; let them share one signature prompt.
+    if (pendingRef.current && pendingRef.current.scope === scope) {
+      return pendingRef.current.promise;
+    }
+
+    const promise = (async () => {
+      const stored = await loadSession(scope);
+      if (isFresh(stored)) {
+        remember({ scope, value: stored });
+        return stored;
+      }
+
+      const signer = await signerPromise;
+      if (!signer) {
+        throw new Error('Wallet signer not available. Please reconnect your wallet.');
+      }
+
+      const keypair = instance.generateKeypair();
+      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, now, SESSION_DURATION_DAYS);
+      const signature = await signer.signTypedData(
+        eip712.domain,
+        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        eip712.message,
+      );
+
+      const created: DecryptionSession = {
+        publicKey: keypair.publicKey,
+        privateKey: keypair.privateKey,
+        signature: signature.replace('0x', ''),
+        startTimestamp: now,
+        durationDays: SESSION_DURATION_DAYS,
+      };
+      await saveSession(scope, created);
+      remember({ scope, value: created });
+      return created;
+    })();
+    pendingRef.current = { scope, promise };
+    try {
+      return await promise;
+    } finally {
+      if (pendingRef.current?.promise === promise) {
+        pendingRef.current = null;
+      }
+    }
+  }, [address, contractAddresses, instance, remember, scope, signerPromise]);
+
+  const decrypt = useCallback(
+    async (handlePairs: HandleContractPair[]) => {
+      const decryptedValues: Record<string, string> = {};
+      if (handlePairs.length === 0) {
+        return decryptedValues;
+      }
+
+      const outside = handlePairs.find((item) => !contractAddresses.includes(getAddress(item.contractAddress)));
+      if (outside) {
+        throw new Error(`Decryption session does not cover ${outside.contractAddress}.`);
+      }
+
+      const current = await obtainSession();
+      const result = await instance!.userDecrypt(
+        handlePairs,
+        current.privateKey,
+        current.publicKey,
+        current.signature,
+        contractAddresses,
+        address!,
+        current.startTimestamp,
+        current.durationDays,
+      );
+
+      Object.assign(decryptedValues, result);
+      return decryptedValues;
+    },
+    [address, contractAddresses, instance, obtainSession],
+  );
+
+  const endSession = useCallback(() => {
+    if (scope) {
+      const sessions = readStoredSessions();
+      delete sessions[scope];
+      writeStoredSessions(sessions);
+    }
+    remember(null);
+  }, [remember, scope]);
+
+  return {
+    decrypt,
+    expiresAt: active ? expiryOf(active) : null,
+    endSession,
+  };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useReadContract, useReadContracts } from 'wagmi';
+
+import { NIGHT_STAKING_ABI } from '../config/contracts';
+
+// Each epoch start asks the decryption oracle for the staked total; poll until it is finalized.
+const EPOCH_POLL_INTERVAL_MS = 5_000;
+
+export function useEpochEmission(pool: `0x${string}` | undefined) {
+  const [awaitingEpoch, setAwaitingEpoch] = useState<number | null>(null);
+
+  const { data, isLoading, error, refetch: refetchSchedule } = useReadContracts({
+    contracts: [
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'epochCount' },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'epochBudget' },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'epochLength' },
+    ],
+    allowFailure: false,
+    query: { enabled: !!pool, refetchInterval: awaitingEpoch !== null ? EPOCH_POLL_INTERVAL_MS : false },
+  });
+
+  const count = data ? Number(data[0]) : 0;
+  const budget = data ? BigInt(data[1]) : 0n;
+  const length = data ? Number(data[2]) : 0;
+
+  const { data: epochData, refetch: refetchEpoch } = useReadContract({
+    address: pool,
+    abi: NIGHT_STAKING_ABI,
+    functionName: 'getEpoch',
+    args: [BigInt(count)],
+    query: { enabled: !!pool && count > 0, refetchInterval: awaitingEpoch !== null ? EPOCH_POLL_INTERVAL_MS : false },
+  });
+
+  const current = count > 0 && epochData ? epochData : null;
+  const startedAt = current ? Number(current.startedAt) : 0;
+  const finalized = current ? current.finalized : false;
+
+  // Stop polling once the awaited epoch exists and its total has been revealed.
+  useEffect(() => {
+    if (awaitingEpoch !== null && count >= awaitingEpoch && finalized) {
+      setAwaitingEpoch(null);
+    }
+  }, [awaitingEpoch, count, finalized]);
+
+  const refetch = useCallback(async () => {
+    await Promise.all([refetchSchedule(), refetchEpoch()]);
+  }, [refetchEpoch, refetchSchedule]);
+
+  const awaitEpoch = useCallback(
+    async (epochId: number) => {
+      setAwaitingEpoch(epochId);
+      await refetch();
+    },
+    [refetch],
+  );
+
+  return {
+    enabled: count > 0,
+    count,
+    budget,
+    length,
+    startedAt,
+    finalized,
+    totalPrincipal: current && finalized ? BigInt(current.totalPrincipal) : null,
+    nextEpochAt: count > 0 ? startedAt + length : 0,
+    awaitingEpoch: awaitingEpoch !== null,
+    awaitEpoch,
+    isLoading,
+    error,
+    refetch,
+  };
+}
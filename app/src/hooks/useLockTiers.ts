@@ -0,0 +1,48 @@
+import { useReadContracts } from 'wagmi';
+
+import { NIGHT_STAKING_ABI } from '../config/contracts';
+
+export type LockTierInfo = {
+  tier: number;
+  label: string;
+  lockDays: number;
+  boostLabel: string;
+};
+
+const SECONDS_PER_DAY = 86_400n;
+
+function formatBoost(boost: bigint, divisor: bigint): string {
+  const hundredths = (boost * 100n) / divisor;
+  const fraction = (hundredths % 100n).toString().padStart(2, '0').replace(/0+$/, '');
+  return fraction.length > 0 ? `${hundredths / 100n}.${fraction}×` : `${hundredths / 100n}×`;
+}
+
+export function useLockTiers(pool: `0x${string}`) {
+  const { data, isLoading, error } = useReadContracts({
+    contracts: [
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'BOOST_DIVISOR' },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'getLockTier', args: [0] },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'getLockTier', args: [1] },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'getLockTier', args: [2] },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'getLockTier', args: [3] },
+    ],
+    allowFailure: false,
+  });
+
+  const tiers: LockTierInfo[] = [];
+  if (data) {
+    // Tiers mirror NightStaking.LockTier; index 0 is the flexible position.
+    const [divisor, ...terms] = data;
+    terms.forEach(([lockDuration, boost], tier) => {
+      const lockDays = Number(BigInt(lockDuration) / SECONDS_PER_DAY);
+      tiers.push({
+        tier,
+        label: lockDays === 0 ? 'Flexible' : `${lockDays}-day lock`,
+        lockDays,
+        boostLabel: formatBoost(BigInt(boost), BigInt(divisor)),
+      });
+    });
+  }
+
+  return { tiers, isLoading, error };
+}
@@ -0,0 +1,23 @@
+import { useAccount, useChainId, useSwitchChain } from 'wagmi';
+
+import { DEFAULT_CHAIN_ID, NETWORKS, getNetwork } from '../config/networks';
+
+export function useNetwork() {
+  // The chain wagmi reads from, which follows the wallet whenever it is on a supported chain.
+  const chainId = useChainId();
+  const { chainId: walletChainId, isConnected } = useAccount();
+  const { switchChain, isPending: isSwitching, error: switchError } = useSwitchChain();
+
+  const network = getNetwork(chainId) ?? NETWORKS[DEFAULT_CHAIN_ID];
+  const wrongNetwork = isConnected && walletChainId !== undefined && !getNetwork(walletChainId);
+
+  return {
+    network,
+    wrongNetwork,
+    walletChainId,
+    supportedNetworks: Object.values(NETWORKS),
+    switchNetwork: (targetChainId: number) => switchChain({ chainId: targetChainId }),
+    isSwitching,
+    switchError,
+  };
+}
@@ -0,0 +1,53 @@
+import { zeroAddress } from "viem";
+import { useReadContract, useReadContracts } from "wagmi";
+
+import { FTEST_TOKEN_ABI, NIGHT_STAKING_FACTORY_ABI } from "../config/contracts";
+import { useNetwork } from "./useNetwork";
+
+export type StakingPool = {
+  address: `0x${string}`;
+  stakingToken: `0x${string}`;
+  rewardToken: `0x${string}`;
+  stakingSymbol: string;
+  rewardSymbol: string;
+  creator: `0x${string}`;
+};
+
+export function usePools() {
+  const { network } = useNetwork();
+  // A network stays listed before its factory is deployed; there are simply no pools to read yet.
+  const deployed = network.contracts.factory !== zeroAddress;
+  const {
+    data: registry,
+    isLoading,
+    error,
+    refetch,
+  } = useReadContract({
+    address: network.contracts.factory,
+    abi: NIGHT_STAKING_FACTORY_ABI,
+    functionName: "getPools",
+    query: { enabled: deployed },
+  });
+
+  // Every token is an ERC7984, so the fTEST ABI is enough to read its symbol.
+  const tokens = Array.from(new Set((registry ?? []).flatMap((info) => [info.stakingToken, info.rewardToken])));
+  const { data: symbols } = useReadContracts({
+    contracts: tokens.map((token) => ({ address: token, abi: FTEST_TOKEN_ABI, functionName: "symbol" }) as const),
+    query: { enabled: tokens.length > 0 },
+  });
+  const symbolOf = (token: `0x${string}`) => {
+    const result = symbols?.[tokens.indexOf(token)];
+    return result?.status === "success" ? (result.result as string) : `${token.slice(0, 6)}…`;
+  };
+
+  const pools: StakingPool[] = (registry ?? []).map((info) => ({
+    address: info.pool,
+    stakingToken: info.stakingToken,
+    rewardToken: info.rewardToken,
+    stakingSymbol: symbolOf(info.stakingToken),
+    rewardSymbol: symbolOf(info.rewardToken),
+    creator: info.creator,
+  }));
+
+  return { pools, deployed, isLoading, error, refetch };
+}
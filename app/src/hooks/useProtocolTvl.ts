@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useReadContracts } from 'wagmi';
+
+import { NIGHT_STAKING_ABI } from '../config/contracts';
+
+// The decryption oracle answers a few blocks after the request; poll until the callback lands.
+const REVEAL_POLL_INTERVAL_MS = 5_000;
+
+export function useProtocolTvl(pool: `0x${string}`) {
+  const [awaitingSince, setAwaitingSince] = useState<number | null>(null);
+
+  const { data, isLoading, error, refetch } = useReadContracts({
+    contracts: [
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'revealedTvl' },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'tvlRevealedAt' },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'nextTvlRevealAt' },
+    ],
+    allowFailure: false,
+    query: { refetchInterval: awaitingSince !== null ? REVEAL_POLL_INTERVAL_MS : false },
+  });
+
+  const tvl = data ? BigInt(data[0]) : null;
+  const revealedAt = data ? Number(data[1]) : 0;
+  const nextRevealAt = data ? Number(data[2]) : 0;
+
+  // Stop polling once a reveal at least as recent as the request has been stored.
+  useEffect(() => {
+    if (awaitingSince !== null && revealedAt >= awaitingSince) {
+      setAwaitingSince(null);
+    }
+  }, [awaitingSince, revealedAt]);
+
+  const awaitReveal = useCallback(
+    async (requestedAt: number) => {
+      setAwaitingSince(requestedAt);
+      await refetch();
+    },
+    [refetch],
+  );
+
+  return {
+    tvl,
+    revealedAt,
+    nextRevealAt,
+    awaitingReveal: awaitingSince !== null,
+    awaitReveal,
+    isLoading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,36 @@
+import { useReadContracts } from 'wagmi';
+
+import { NIGHT_STAKING_ABI } from '../config/contracts';
+
+// Mirrors NightStaking.AccrualMode.
+const ACCRUAL_MODE_PER_SECOND = 1;
+
+export function formatDailyRate(dailyRate: bigint, rateDivisor: bigint): string {
+  if (rateDivisor === 0n) {
+    return '0%';
+  }
+  // Rates are stored in basis points; show up to two decimals of a percent.
+  const hundredths = (dailyRate * 10_000n) / rateDivisor;
+  const integer = hundredths / 100n;
+  const fraction = (hundredths % 100n).toString().padStart(2, '0').replace(/0+$/, '');
+  return fraction.length > 0 ? `${integer}.${fraction}%` : `${integer}%`;
+}
+
+export function useRewardRate(pool: `0x${string}` | undefined) {
+  const { data, isLoading, error, refetch } = useReadContracts({
+    contracts: [
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'currentRewardRate' },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'RATE_DIVISOR' },
+      { address: pool, abi: NIGHT_STAKING_ABI, functionName: 'accrualMode' },
+    ],
+    allowFailure: false,
+    query: { enabled: !!pool },
+  });
+
+  const dailyRate = data ? BigInt(data[0]) : null;
+  const rateDivisor = data ? BigInt(data[1]) : null;
+  const perSecond = data ? Number(data[2]) === ACCRUAL_MODE_PER_SECOND : false;
+  const label = dailyRate !== null && rateDivisor !== null ? formatDailyRate(dailyRate, rateDivisor) : null;
+
+  return { dailyRate, rateDivisor, perSecond, label, isLoading, error, refetch };
+}
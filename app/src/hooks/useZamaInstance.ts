@@ -1,7 +1,60 @@
 import { useState, useEffect } from 'react';
-import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { createInstance,initSDK } from '@zama-fhe/relayer-sdk/bundle';
+
+import type { FheConfig } from '../config/networks';
+import { useNetwork } from './useNetwork';
+
+// `npx hardhat node` serves the relayer methods next to the usual JSON-RPC ones, answering them from its
+// mock coprocessor. Calls go through fetch so that a stopped node fails at once instead of being retried.
+function nodeRelayer(url: string) {
+  let nextId = 0;
+  return {
+    async request({ method, params }: { method: string; params?: unknown[] }) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id: ++nextId, method, params: params ?? [] }),
+        });
+      } catch {
+        throw new Error(`No local node at ${url}; start it with \`npm run dev:local\`.`);
+      }
+      const body = await response.json();
+      if (body.error) {
+        throw new Error(body.error.message);
+      }
+      return body.result;
+    },
+  };
+}
+
+async function createFheInstance(fhe: FheConfig) {
+  if (fhe.kind === 'relayer') {
+    await initSDK()
+    return createInstance(fhe.config);
+  }
+
+  // The mock is only needed against a local node, so keep it out of the main bundle.
+  const [{ JsonRpcProvider }, { MockFhevmInstance }] = await Promise.all([import('ethers'), import('@fhevm/mock-utils')]);
+  const provider = new JsonRpcProvider(fhe.rpcUrl);
+  const relayer = nodeRelayer(fhe.rpcUrl);
+  const metadata = await relayer.request({ method: 'fhevm_relayer_metadata', params: [] });
+  const { chainId } = await provider.getNetwork();
+
+  return MockFhevmInstance.create(relayer, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    verifyingContractAddressDecryption: fhe.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: fhe.verifyingContractAddressInputVerification,
+    chainId: Number(chainId),
+    gatewayChainId: fhe.gatewayChainId,
+  });
+}
 
 export function useZamaInstance() {
+  const { network } = useNetwork();
   const [instance, setInstance] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -13,9 +66,10 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
+        // Drop the previous network's instance so nothing is encrypted for the wrong chain.
+        setInstance(null);
 
-        const zamaInstance = await createInstance(SepoliaConfig);
+        const zamaInstance = await createFheInstance(network.fhe);
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -23,7 +77,11 @@ export function useZamaInstance() {
       } catch (err) {
         console.error('Failed to initialize Zama instance:', err);
         if (mounted) {
-          setError('Failed to initialize encryption service');
+          setError(
+            network.fhe.kind === 'mock'
+              ? `Failed to start the mock encryption service; is the local node (${network.fhe.rpcUrl}) running?`
+              : 'Failed to initialize encryption service',
+          );
         }
       } finally {
         if (mounted) {
@@ -37,7 +95,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [network]);
 
   return { instance, isLoading, error };
-}
\ No newline at end of file
+}
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // @nightvault/sdk is linked from ../sdk; resolve its ethers import to the app's copy.
+  resolve: {
+    dedupe: ['ethers'],
+  },
 })
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {
+    ERC7984,
+    ERC7984ERC20Wrapper
+} from "@openzeppelin/confidential-contracts/token/ERC7984/extensions/ERC7984ERC20Wrapper.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC20} from "@openzeppelin/contracts/interfaces/IERC20.sol";
+
+/// @title Confidential ERC20 wrapper
+/// @author NightVault
+/// @notice Wraps a plain ERC20 into a confidential ERC7984 token that NightStaking can stake.
+/// @dev `wrap` mints immediately; `unwrap` burns the encrypted amount and releases the underlying
+/// once the decryption oracle reports how much was actually burnt (see `finalizeUnwrap`).
+contract ConfidentialWrapper is ERC7984ERC20Wrapper, SepoliaConfig {
+    /// @notice Deploys a wrapper around `underlying_`.
+    /// @param underlying_ the ERC20 to wrap
+    /// @param name_ the name of the confidential token
+    /// @param symbol_ the symbol of the confidential token
+    constructor(
+        IERC20 underlying_,
+        string memory name_,
+        string memory symbol_
+    ) ERC7984(name_, symbol_, "") ERC7984ERC20Wrapper(underlying_) {}
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title TEST faucet token
+/// @author NightVault
+/// @notice Public test token backing ConfidentialWrapper on networks without a real ERC20 to wrap.
+contract ERC20Test is ERC20 {
+    /// @notice Amount every mint hands out.
+    uint256 public constant MINT_AMOUNT = 100 * 10 ** 18;
+
+    /// @notice Deploys the token with no initial supply.
+    constructor() ERC20("Test Token", "TEST") {}
+
+    /// @notice Mints the caller MINT_AMOUNT tokens.
+    function mintFree() public {
+        _mint(msg.sender, MINT_AMOUNT);
+    }
+}
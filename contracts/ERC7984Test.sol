@@ -3,12 +3,81 @@ pragma solidity ^0.8.27;
 
 import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
-import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 
-contract ERC7984Test is ERC7984, SepoliaConfig {
-    constructor() ERC7984("fTest", "fTEST", "") {}
+/// @title fTEST faucet token
+/// @author NightVault
+/// @notice Confidential test token that anyone can mint from a rate-limited, capped faucet.
+contract ERC7984Test is ERC7984, SepoliaConfig, Ownable {
+    /// @notice Time an account has to wait between two mints.
+    uint64 public constant MINT_COOLDOWN = 1 days;
+    /// @notice Lifetime amount a single account can mint.
+    uint64 public constant MINT_CAP = 1000 * 1000000;
 
+    /// @notice Amount a single mint hands out.
+    /// @dev Minted amounts are public anyway: the faucet is the only source of supply.
+    uint64 public mintAmount = 100 * 1000000;
+    /// @notice Total supply minted through the faucet.
+    uint64 public totalMinted;
+
+    /// @notice Timestamp of each account's latest mint.
+    mapping(address account => uint64 timestamp) public lastMintAt;
+    /// @notice Amount each account has minted so far.
+    mapping(address account => uint64 amount) public mintedBy;
+
+    /// @notice Emitted when the owner changes the amount a mint hands out.
+    /// @param amount the new amount per mint
+    event MintAmountUpdated(uint64 amount);
+
+    error MintCooldown(uint64 availableAt);
+    error MintCapReached(uint64 cap);
+    error InvalidMintAmount();
+
+    /// @notice Deploys the token with the deployer as owner.
+    constructor() ERC7984("fTest", "fTEST", "") Ownable(msg.sender) {}
+
+    /// @notice Mints the caller `mintAllowance` tokens once the cooldown since its last mint has passed.
     function mintFree() public {
-        _mint(msg.sender, FHE.asEuint64(100*1000000));
+        uint64 availableAt = nextMintAt(msg.sender);
+        if (block.timestamp < availableAt) {
+            revert MintCooldown(availableAt);
+        }
+        uint64 amount = mintAllowance(msg.sender);
+        if (amount == 0) {
+            revert MintCapReached(MINT_CAP);
+        }
+
+        lastMintAt[msg.sender] = uint64(block.timestamp);
+        mintedBy[msg.sender] += amount;
+        totalMinted += amount;
+
+        _mint(msg.sender, FHE.asEuint64(amount));
+    }
+
+    /// @notice Changes the amount a mint hands out, up to the lifetime cap.
+    /// @param amount the new amount per mint
+    function setMintAmount(uint64 amount) external onlyOwner {
+        if (amount == 0 || amount > MINT_CAP) {
+            revert InvalidMintAmount();
+        }
+        mintAmount = amount;
+        emit MintAmountUpdated(amount);
+    }
+
+    /// @notice Earliest timestamp at which `account` may call mintFree again; zero if it never minted.
+    /// @param account the account to check
+    /// @return The timestamp from which the account may mint
+    function nextMintAt(address account) public view returns (uint64) {
+        uint64 last = lastMintAt[account];
+        return last == 0 ? 0 : last + MINT_COOLDOWN;
+    }
+
+    /// @notice Amount the next mint of `account` would receive, trimmed to what is left of its lifetime cap.
+    /// @param account the account to check
+    /// @return The amount the account's next mint would receive
+    function mintAllowance(address account) public view returns (uint64) {
+        uint64 remaining = MINT_CAP - mintedBy[account];
+        return remaining < mintAmount ? remaining : mintAmount;
     }
 }
@@ -1,160 +1,1702 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.27;
 
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {SepoliaConfig, ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+import {IERC7984Receiver} from "@openzeppelin/confidential-contracts/interfaces/IERC7984Receiver.sol";
 import {FHESafeMath} from "@openzeppelin/confidential-contracts/utils/FHESafeMath.sol";
-import {ERC7984Test} from "./ERC7984Test.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+import {NightStakingRewards} from "./NightStakingRewards.sol";
 
-contract NightStaking is SepoliaConfig {
+/// @title NightStaking pool
+/// @author NightVault
+/// @notice Confidential staking pool: principal, rewards and withdrawals stay encrypted, and only the pool's
+/// total value locked is ever revealed.
+/// @dev Pools are EIP-1167 clones created by NightStakingFactory, so they are set up in `initialize`
+/// rather than the constructor, which only locks the implementation itself.
+contract NightStaking is SepoliaConfig, Ownable, AccessControl, Pausable, Initializable, IERC7984Receiver {
     using FHESafeMath for euint64;
 
-    uint64 private constant RATE_DIVISOR = 100;
+    /// @notice Denominator of daily reward and penalty rates, which are in basis points.
+    uint64 public constant RATE_DIVISOR = 10_000;
+    /// @notice Highest daily reward rate, 100% of principal a day.
+    uint32 public constant MAX_DAILY_RATE = 10_000;
     uint64 private constant SECONDS_PER_DAY = 86_400;
+    /// @notice Denominator of lock tier reward boosts.
+    uint32 public constant BOOST_DIVISOR = 10_000;
+    uint128 private constant ACCRUAL_SCALE = uint128(RATE_DIVISOR) * SECONDS_PER_DAY * BOOST_DIVISOR;
+    /// @notice Id of every account's flexible position.
+    uint256 public constant FLEXIBLE_POSITION = 0;
+    /// @notice Role allowed to pause and unpause the pool.
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    /// @notice Longest unbonding period the owner can set.
+    uint64 public constant MAX_UNBONDING_PERIOD = 30 days;
+    /// @notice Most auditors a single account can grant.
+    uint256 public constant MAX_AUDITORS = 5;
+    /// @notice Shortest time between two TVL reveal requests.
+    uint64 public constant TVL_REVEAL_INTERVAL = 1 hours;
+    /// @notice Highest early-unstake penalty rate, in basis points.
+    uint32 public constant MAX_PENALTY_RATE = 2_000;
+    /// @notice Longest early-unstake penalty window.
+    uint64 public constant MAX_PENALTY_WINDOW = 30 days;
+    /// @notice Shortest epoch length the owner can set.
+    uint64 public constant MIN_EPOCH_LENGTH = 1 hours;
+    /// @notice Longest epoch length the owner can set.
+    uint64 public constant MAX_EPOCH_LENGTH = 30 days;
+
+    enum AccrualMode {
+        DailyStep,
+        PerSecond
+    }
+
+    enum LockTier {
+        Flexible,
+        Days7,
+        Days30,
+        Days90
+    }
 
     struct StakeInfo {
         euint64 principal;
         euint64 rewards;
+        euint64 accrualRemainder;
+        // Epoch emission checkpoint: the lowest principal the position has held since the start of `epoch`,
+        // the epoch it was last settled in.
+        euint64 epochPrincipal;
+        uint64 lastAccrued;
+        uint64 unlockTime;
+        uint64 lastDeposit;
+        uint64 epoch;
+        LockTier tier;
+        NightStakingRewards.StreamBalance bonus;
+    }
+
+    // One entry per reward token a position earns, as returned by getStakeDetails.
+    struct RewardBalance {
+        IERC7984 token;
+        euint64 amount;
         uint64 lastAccrued;
     }
 
-    ERC7984Test public immutable stakingToken;
-    mapping(address => StakeInfo) private _stakes;
+    struct PendingWithdrawal {
+        address account;
+        uint64 maturity;
+        uint256 positionId;
+        euint64 amount;
+    }
+
+    /// @notice The token staked into the pool.
+    IERC7984 public stakingToken;
+    /// @notice The token rewards are paid in.
+    /// @dev Rewards are paid in their own token, which may be the staking token itself. Compounding
+    /// restakes rewards as principal, so it is only available when both are the same token.
+    IERC7984 public rewardToken;
+    // Every account has one flexible position (id FLEXIBLE_POSITION) plus any number of locked ones.
+    mapping(address account => StakeInfo info) private _stakes;
+    mapping(uint256 positionId => StakeInfo info) private _lockedPositions;
+    mapping(uint256 positionId => address account) private _positionOwners;
+    mapping(address account => uint256[] positionIds) private _accountPositionIds;
+    mapping(address account => bool enabled) private _autoCompound;
+    uint256 private _lastPositionId;
+    mapping(address account => ebool fullyPaid) private _lastClaimFullyPaid;
+    // Confidential transfers move zero instead of reverting when funds are short, so the amount the
+    // latest stake or unstake an account made actually moved is kept for that account to decrypt.
+    mapping(address account => euint64 amount) private _lastStaked;
+    mapping(address account => euint64 amount) private _lastUnstaked;
+
+    /// @notice How long unstaked principal waits before it can be withdrawn.
+    /// @dev With a non-zero unbonding period, unstaked principal waits in a pending withdrawal until it matures.
+    /// It no longer earns rewards but still counts towards the principal liabilities until it is released.
+    uint64 public unbondingPeriod;
+    mapping(uint256 withdrawalId => PendingWithdrawal withdrawal) private _pendingWithdrawals;
+    mapping(address account => uint256[] withdrawalIds) private _accountWithdrawalIds;
+    uint256 private _lastWithdrawalId;
+
+    // Auditors chosen by an account are allowed to decrypt its principal, rewards and pending
+    // withdrawals, including every handle those values get after later updates.
+    mapping(address account => address[] auditors) private _auditors;
+
+    // Principal and reward liabilities are tracked apart from the reward reserve so that claims
+    // can only ever be paid out of tokens the owner deposited for that purpose.
+    euint64 private _totalPrincipal;
+    euint64 private _totalRewards;
+    euint64 private _rewardReserve;
 
-    event Staked(address indexed account, euint64 amount);
-    event Unstaked(address indexed account, euint64 requestedAmount, euint64 withdrawnAmount);
-    event RewardsClaimed(address indexed account, euint64 amount);
+    // Only the aggregate of principal and outstanding rewards is ever made public, through the
+    // decryption oracle, and at most once per TVL_REVEAL_INTERVAL.
+    /// @notice The latest total value locked revealed by the decryption oracle.
+    uint64 public revealedTvl;
+    /// @notice When `revealedTvl` was revealed.
+    uint64 public tvlRevealedAt;
+    uint64 private _lastTvlRequestAt;
+    uint256 private _pendingTvlRequestId;
+    bool private _tvlRequestPending;
+
+    // Daily rates in basis points of principal, ordered by `effectiveFrom`. Accrual walks these
+    // so that time elapsed before a change keeps earning at the rate that applied back then.
+    NightStakingRewards.RateCheckpoint[] private _rateCheckpoints;
+    /// @notice Whether fixed-rate rewards accrue per whole day or per second.
+    AccrualMode public accrualMode;
+
+    // Principal withdrawn within `earlyUnstakeWindow` of the owner's last deposit into a position loses
+    // `earlyUnstakePenaltyRate` basis points. The penalty tops up the reward reserve, so it ends up
+    // paying the rewards of the stakers who stay.
+    /// @notice Share of principal withheld from early withdrawals, in basis points.
+    uint32 public earlyUnstakePenaltyRate;
+    /// @notice How long after a deposit withdrawing from the position is penalised.
+    uint64 public earlyUnstakeWindow;
+
+    // Epoch emission replaces the fixed daily rate with a fixed budget of reward tokens per epoch, shared
+    // pro-rata on the lowest principal each position holds through the epoch. The total principal at
+    // the start of every epoch is revealed to price its reward per share; individual stakes stay
+    // encrypted. Once enabled, fixed-rate accrual stops at the start of the first epoch.
+    NightStakingRewards.EpochSchedule private _emission;
+
+    // Optional bonus rewards in a second token, accrued per second at their own daily rates alongside the
+    // main rewards (or instead of them, with a zero main rate) and claimed separately. They are never
+    // compounded and are forfeited by an emergency withdrawal.
+    NightStakingRewards.RewardStream private _bonus;
+
+    /// @notice Emitted when principal is credited to a position.
+    /// @param account the position's owner
+    /// @param positionId the position
+    /// @param amount the amount credited
+    event Staked(address indexed account, uint256 indexed positionId, euint64 amount);
+    /// @notice Emitted when a deposit is made on another account's behalf.
+    /// @param funder the account that paid for the deposit
+    /// @param beneficiary the account credited with it
+    event StakedFor(address indexed funder, address indexed beneficiary);
+    /// @notice Emitted when principal is unstaked from a position.
+    /// @param account the position's owner
+    /// @param positionId the position
+    /// @param requestedAmount the amount asked for
+    /// @param withdrawnAmount the amount actually withdrawn or queued, after any penalty
+    event Unstaked(
+        address indexed account,
+        uint256 indexed positionId,
+        euint64 requestedAmount,
+        euint64 withdrawnAmount
+    );
+    /// @notice Emitted when a position's rewards are claimed.
+    /// @param account the position's owner
+    /// @param positionId the position
+    /// @param amount the amount paid out
+    /// @param fullyPaid whether the reserve covered everything the position was owed
+    event RewardsClaimed(address indexed account, uint256 indexed positionId, euint64 amount, ebool fullyPaid);
+    /// @notice Emitted when a locked position is opened.
+    /// @param account the position's owner
+    /// @param positionId the new position
+    /// @param tier the position's lock tier
+    /// @param unlockTime when the position can be unstaked
+    event PositionOpened(address indexed account, uint256 indexed positionId, LockTier tier, uint64 unlockTime);
+    /// @notice Emitted when the owner funds the reward reserve.
+    /// @param funder the account that funded it
+    /// @param amount the amount that arrived
+    event RewardsFunded(address indexed funder, euint64 amount);
+    /// @notice Emitted when the daily reward rate changes.
+    /// @param previousRate the rate that applied until now
+    /// @param newRate the rate that applies from `effectiveFrom`
+    /// @param effectiveFrom when the new rate takes effect
+    event RewardRateUpdated(uint32 previousRate, uint32 newRate, uint64 effectiveFrom);
+    /// @notice Emitted when the accrual mode changes.
+    /// @param mode the new accrual mode
+    event AccrualModeUpdated(AccrualMode mode);
+    /// @notice Emitted when an account turns auto-compounding on or off.
+    /// @param account the account
+    /// @param enabled whether its rewards now compound automatically
+    event AutoCompoundSet(address indexed account, bool enabled);
+    /// @notice Emitted when a position's rewards are restaked as principal.
+    /// @param account the position's owner
+    /// @param positionId the position
+    /// @param amount the amount restaked
+    event Compounded(address indexed account, uint256 indexed positionId, euint64 amount);
+    /// @notice Emitted when the unbonding period changes.
+    /// @param period the new unbonding period
+    event UnbondingPeriodUpdated(uint64 period);
+    /// @notice Emitted when unstaked principal is queued until the unbonding period has passed.
+    /// @param account the withdrawal's owner
+    /// @param withdrawalId the new pending withdrawal
+    /// @param positionId the position it was unstaked from
+    /// @param amount the amount queued
+    /// @param maturity when it can be withdrawn
+    event WithdrawalRequested(
+        address indexed account,
+        uint256 indexed withdrawalId,
+        uint256 indexed positionId,
+        euint64 amount,
+        uint64 maturity
+    );
+    /// @notice Emitted when a pending withdrawal is put back into the stake.
+    /// @param account the withdrawal's owner
+    /// @param withdrawalId the cancelled withdrawal
+    event WithdrawalCancelled(address indexed account, uint256 indexed withdrawalId);
+    /// @notice Emitted when matured withdrawals are paid out.
+    /// @param account the withdrawals' owner
+    /// @param amount the amount paid out
+    event Withdrawn(address indexed account, euint64 amount);
+    /// @notice Emitted when an account grants an auditor access to its stake.
+    /// @param account the account
+    /// @param auditor the auditor
+    event AuditorGranted(address indexed account, address indexed auditor);
+    /// @notice Emitted when an account revokes an auditor.
+    /// @param account the account
+    /// @param auditor the auditor
+    event AuditorRevoked(address indexed account, address indexed auditor);
+    /// @notice Emitted when the total value locked is sent to the decryption oracle.
+    /// @param requestId the oracle request
+    /// @param totalValueLocked the encrypted total value locked
+    event TvlRevealRequested(uint256 indexed requestId, euint64 totalValueLocked);
+    /// @notice Emitted when the decryption oracle reveals the total value locked.
+    /// @param requestId the answered request
+    /// @param totalValueLocked the revealed total value locked
+    /// @param revealedAt when it was revealed
+    event TvlRevealed(uint256 indexed requestId, uint64 totalValueLocked, uint64 revealedAt);
+    /// @notice Emitted when a position moves to, or merges into, another account's position.
+    /// @param from the sender
+    /// @param to the recipient
+    /// @param positionId the position that moved
+    /// @param targetPositionId the recipient's position it now is, or was merged into
+    event PositionTransferred(
+        address indexed from,
+        address indexed to,
+        uint256 indexed positionId,
+        uint256 targetPositionId
+    );
+    /// @notice Emitted when the early-unstake penalty changes.
+    /// @param rate the new penalty rate, in basis points
+    /// @param window the new penalty window
+    event EarlyUnstakePenaltyUpdated(uint32 rate, uint64 window);
+    /// @notice Emitted when an early withdrawal is penalised.
+    /// @param account the position's owner
+    /// @param positionId the position
+    /// @param penalty the amount withheld
+    event EarlyUnstakePenaltyCharged(address indexed account, uint256 indexed positionId, euint64 penalty);
+    /// @notice Emitted when the epoch emission settings change.
+    /// @param budget the reward budget of every later epoch
+    /// @param length the length of every later epoch
+    event EpochEmissionUpdated(uint64 budget, uint64 length);
+    // Epoch events are emitted by NightStakingRewards.
+    /// @notice Emitted when an epoch starts and its total principal is sent to the oracle.
+    /// @param epochId the new epoch
+    /// @param requestId the oracle request for its total principal
+    /// @param totalPrincipal the encrypted total principal
+    event EpochStarted(uint256 indexed epochId, uint256 indexed requestId, euint64 totalPrincipal);
+    /// @notice Emitted when the oracle reveals an epoch's total principal.
+    /// @param epochId the priced epoch
+    /// @param totalPrincipal the revealed total principal
+    /// @param rewardPerShare the epoch's reward per unit of principal, scaled by 1e18
+    event EpochFinalized(uint256 indexed epochId, uint64 totalPrincipal, uint128 rewardPerShare);
+    /// @notice Emitted when an unanswered epoch reveal is sent to the oracle again.
+    /// @param epochId the pending epoch
+    /// @param requestId the new oracle request
+    event EpochRevealRetried(uint256 indexed epochId, uint256 indexed requestId);
+    /// @notice Emitted when the bonus reward token or rate is set.
+    /// @param token the bonus reward token
+    /// @param previousRate the rate that applied until now
+    /// @param newRate the rate that applies from `effectiveFrom`
+    /// @param effectiveFrom when the new rate takes effect
+    event BonusRewardRateUpdated(address indexed token, uint32 previousRate, uint32 newRate, uint64 effectiveFrom);
+    /// @notice Emitted when the owner funds the bonus reward reserve.
+    /// @param funder the account that funded it
+    /// @param amount the amount that arrived
+    event BonusRewardsFunded(address indexed funder, euint64 amount);
+    /// @notice Emitted when a position's bonus rewards are claimed.
+    /// @param account the position's owner
+    /// @param positionId the position
+    /// @param amount the amount paid out
+    event BonusRewardsClaimed(address indexed account, uint256 indexed positionId, euint64 amount);
+    /// @notice Emitted when an account takes out all its principal while the pool is paused.
+    /// @param account the account
+    /// @param principal the principal returned
+    /// @param forfeitedRewards the rewards it gave up
+    event EmergencyWithdrawn(address indexed account, euint64 principal, euint64 forfeitedRewards);
 
     error NoRewards();
+    error InvalidRewardRate(uint32 dailyRate);
+    error InvalidLockTier(LockTier tier);
+    error UnknownPosition(uint256 positionId);
+    error PositionLocked(uint256 positionId, uint64 unlockTime);
+    error UnsupportedToken(address token);
+    error InvalidUnbondingPeriod(uint64 period);
+    error UnknownWithdrawal(uint256 withdrawalId);
+    error NothingToWithdraw();
+    error InvalidAuditor(address auditor);
+    error TooManyAuditors();
+    error TvlRevealTooSoon(uint64 availableAt);
+    error TvlRevealPending(uint256 requestId);
+    error UnknownTvlRequest(uint256 requestId);
+    error CompoundingUnsupported();
+    error InvalidRecipient(address recipient);
+    error IncompatiblePositions(uint256 positionId, uint256 targetPositionId);
+    error NothingToTransfer();
+    error InvalidPenalty(uint32 rate, uint64 window);
+    error PenaltyUnsupported();
+    error InvalidEpochEmission(uint64 budget, uint64 length);
+    error EpochEmissionDisabled();
+    error UnknownEpoch(uint256 epochId);
+    // Raised by NightStakingRewards.
+    error EpochTooSoon(uint64 availableAt);
+    error EpochPending(uint256 epochId);
+    error UnknownEpochRequest(uint256 requestId);
+    error NoPendingEpoch();
+    error EpochRevealTooSoon(uint64 availableAt);
+
+    /// @notice Locks the implementation that pools clone.
+    constructor() Ownable(msg.sender) {
+        _disableInitializers();
+    }
+
+    /// @notice Sets up a freshly cloned pool.
+    /// @param stakingToken_ the token the pool stakes
+    /// @param rewardToken_ the token rewards are paid in
+    /// @param dailyRate the initial daily reward rate, in basis points of principal
+    /// @param initialOwner the pool's owner and pauser
+    function initialize(
+        IERC7984 stakingToken_,
+        IERC7984 rewardToken_,
+        uint32 dailyRate,
+        address initialOwner
+    ) external initializer {
+        if (dailyRate > MAX_DAILY_RATE) {
+            revert InvalidRewardRate(dailyRate);
+        }
+        // Clones skip the SepoliaConfig constructor, so point them at the coprocessor here.
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        stakingToken = stakingToken_;
+        rewardToken = rewardToken_;
+        _transferOwnership(initialOwner);
+        _grantRole(DEFAULT_ADMIN_ROLE, initialOwner);
+        _grantRole(PAUSER_ROLE, initialOwner);
+        _rateCheckpoints.push(
+            NightStakingRewards.RateCheckpoint({effectiveFrom: uint64(block.timestamp), dailyRate: dailyRate})
+        );
+        emit RewardRateUpdated(0, dailyRate, uint64(block.timestamp));
+    }
+
+    /// @notice Changes the daily reward rate from now on.
+    /// @param dailyRate the new daily rate, in basis points of principal
+    function setRewardRate(uint32 dailyRate) external onlyOwner {
+        if (dailyRate > MAX_DAILY_RATE) {
+            revert InvalidRewardRate(dailyRate);
+        }
+
+        uint32 previousRate = NightStakingRewards.setRate(_rateCheckpoints, dailyRate);
+        emit RewardRateUpdated(previousRate, dailyRate, uint64(block.timestamp));
+    }
+
+    /// @notice Sets the bonus reward token and its daily rate.
+    /// @dev The first call picks the bonus token, which cannot change afterwards since positions keep earning
+    /// it; later calls only change its rate. A zero rate stops bonus accrual.
+    /// @param token the bonus reward token
+    /// @param dailyRate the new daily bonus rate, in basis points of principal
+    function setBonusRewards(IERC7984 token, uint32 dailyRate) external onlyOwner {
+        if (address(token) == address(0) || (address(_bonus.token) != address(0) && token != _bonus.token)) {
+            revert UnsupportedToken(address(token));
+        }
+        if (dailyRate > MAX_DAILY_RATE) {
+            revert InvalidRewardRate(dailyRate);
+        }
+        _bonus.token = token;
+        uint32 previousRate = NightStakingRewards.setRate(_bonus.rates, dailyRate);
+        emit BonusRewardRateUpdated(address(token), previousRate, dailyRate, uint64(block.timestamp));
+    }
+
+    /// @notice Adds the owner's tokens to the reward reserve.
+    /// @param encryptedAmount the encrypted amount
+    /// @param inputProof the proof for `encryptedAmount`
+    function fundRewards(externalEuint64 encryptedAmount, bytes calldata inputProof) external onlyOwner {
+        euint64 fundAmount = FHE.fromExternal(encryptedAmount, inputProof);
+        euint64 transferred = _pull(rewardToken, msg.sender, fundAmount);
+
+        _rewardReserve = FHE.add(_rewardReserve, transferred);
+        _syncAccess(_rewardReserve, owner());
 
-    constructor(address token) {
-        stakingToken = ERC7984Test(token);
+        emit RewardsFunded(msg.sender, transferred);
     }
 
-    function stake(externalEuint64 encryptedAmount, bytes calldata inputProof) external {
-        StakeInfo storage info = _stakes[msg.sender];
+    /// @notice Adds the owner's bonus tokens to the bonus reward reserve.
+    /// @param encryptedAmount the encrypted amount
+    /// @param inputProof the proof for `encryptedAmount`
+    function fundBonusRewards(externalEuint64 encryptedAmount, bytes calldata inputProof) external onlyOwner {
+        if (address(_bonus.token) == address(0)) {
+            revert UnsupportedToken(address(0));
+        }
+        euint64 transferred = NightStakingRewards.fundStream(_bonus, FHE.fromExternal(encryptedAmount, inputProof));
+        _syncAccess(_bonus.reserve, owner());
 
-        _accrueRewards(msg.sender, info);
+        emit BonusRewardsFunded(msg.sender, transferred);
+    }
 
+    /// @notice Switches fixed-rate accrual between whole days and seconds.
+    /// @param mode the new accrual mode
+    function setAccrualMode(AccrualMode mode) external onlyOwner {
+        accrualMode = mode;
+        emit AccrualModeUpdated(mode);
+    }
+
+    /// @notice Changes how long unstaked principal waits before it can be withdrawn.
+    /// @param period the new unbonding period; zero pays unstaked principal out at once
+    function setUnbondingPeriod(uint64 period) external onlyOwner {
+        if (period > MAX_UNBONDING_PERIOD) {
+            revert InvalidUnbondingPeriod(period);
+        }
+        unbondingPeriod = period;
+        emit UnbondingPeriodUpdated(period);
+    }
+
+    /// @notice Changes the early-unstake penalty.
+    /// @dev A zero rate turns the penalty off. Penalties are paid in the staking token, so they can only
+    /// back rewards, and are only available, when rewards are paid in that same token.
+    /// @param rate the share of principal withheld, in basis points
+    /// @param window how long after a deposit the penalty applies
+    function setEarlyUnstakePenalty(uint32 rate, uint64 window) external onlyOwner {
+        if (rate > MAX_PENALTY_RATE || window > MAX_PENALTY_WINDOW) {
+            revert InvalidPenalty(rate, window);
+        }
+        if (rate > 0 && !_compoundable()) {
+            revert PenaltyUnsupported();
+        }
+        earlyUnstakePenaltyRate = rate;
+        earlyUnstakeWindow = window;
+        emit EarlyUnstakePenaltyUpdated(rate, window);
+    }
+
+    /// @notice Sets the reward budget and length of epochs.
+    /// @dev The first call switches the pool to epoch emission and starts epoch 1; later calls apply from the
+    /// next epoch. There is no way back to the fixed rate.
+    /// @param budget the reward budget of each epoch
+    /// @param length the length of each epoch
+    function setEpochEmission(uint64 budget, uint64 length) external onlyOwner {
+        if (budget == 0 || length < MIN_EPOCH_LENGTH || length > MAX_EPOCH_LENGTH) {
+            revert InvalidEpochEmission(budget, length);
+        }
+        _emission.budget = budget;
+        _emission.length = length;
+        emit EpochEmissionUpdated(budget, length);
+
+        if (_emission.epochs.length == 0) {
+            _startEpoch();
+        }
+    }
+
+    /// @notice Stops staking, unstaking and claiming, and enables emergency withdrawals.
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /// @notice Resumes normal operation.
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    /// @notice Stakes into the caller's flexible position, pulling the tokens through its operator grant.
+    /// @param encryptedAmount the encrypted amount to stake
+    /// @param inputProof the proof for `encryptedAmount`
+    function stake(externalEuint64 encryptedAmount, bytes calldata inputProof) external whenNotPaused {
         euint64 stakeAmount = FHE.fromExternal(encryptedAmount, inputProof);
-        FHE.allowTransient(stakeAmount, address(stakingToken));
+        _deposit(msg.sender, msg.sender, FLEXIBLE_POSITION, _stakes[msg.sender], stakeAmount);
+    }
 
-        euint64 transferred = stakingToken.confidentialTransferFrom(msg.sender, address(this), stakeAmount);
+    /// @notice Stakes the caller's tokens into the flexible position of `beneficiary`.
+    /// @dev For treasury and payroll flows: the caller funds the deposit through its operator grant, while the
+    /// beneficiary owns the resulting principal and rewards and is the only one allowed to decrypt them.
+    /// @param beneficiary the account credited with the stake
+    /// @param encryptedAmount the encrypted amount to stake
+    /// @param inputProof the proof for `encryptedAmount`
+    function stakeFor(
+        address beneficiary,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external whenNotPaused {
+        if (beneficiary == address(0)) {
+            revert InvalidRecipient(beneficiary);
+        }
 
-        info.principal = FHE.add(info.principal, transferred);
-        _syncAccess(info.principal, msg.sender);
+        euint64 stakeAmount = FHE.fromExternal(encryptedAmount, inputProof);
+        _deposit(msg.sender, beneficiary, FLEXIBLE_POSITION, _stakes[beneficiary], stakeAmount);
+
+        emit StakedFor(msg.sender, beneficiary);
+    }
 
+    /// @notice Opens a locked position for the caller and stakes into it.
+    /// @param tier the lock tier of the new position
+    /// @param encryptedAmount the encrypted amount to stake
+    /// @param inputProof the proof for `encryptedAmount`
+    /// @return positionId the new position
+    function stakeLocked(
+        LockTier tier,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external whenNotPaused returns (uint256 positionId) {
+        positionId = _openPosition(msg.sender, tier);
+
+        euint64 stakeAmount = FHE.fromExternal(encryptedAmount, inputProof);
+        _deposit(msg.sender, msg.sender, positionId, _lockedPositions[positionId], stakeAmount);
+    }
+
+    /// @notice Stakes tokens sent to the pool with `confidentialTransferAndCall`.
+    /// @dev Staking through `confidentialTransferAndCall` needs no operator grant: the tokens have already
+    /// arrived when the token calls back. Empty `data` stakes into the flexible position, otherwise
+    /// `data` is an ABI-encoded LockTier and a new locked position is opened.
+    /// @param from the account that sent the tokens
+    /// @param amount the amount that arrived
+    /// @param data empty, or an ABI-encoded LockTier
+    /// @return Always true: the tokens are kept
+    function onConfidentialTransferReceived(
+        address,
+        address from,
+        euint64 amount,
+        bytes calldata data
+    ) external whenNotPaused returns (ebool) {
+        if (msg.sender != address(stakingToken)) {
+            revert UnsupportedToken(msg.sender);
+        }
+
+        if (data.length == 0) {
+            _credit(from, from, FLEXIBLE_POSITION, _stakes[from], amount);
+        } else {
+            uint256 positionId = _openPosition(from, abi.decode(data, (LockTier)));
+            _credit(from, from, positionId, _lockedPositions[positionId], amount);
+        }
+
+        ebool accepted = FHE.asEbool(true);
+        FHE.allowTransient(accepted, msg.sender);
+        return accepted;
+    }
+
+    /// @notice Unstakes from the caller's flexible position.
+    /// @param encryptedAmount the encrypted amount to unstake
+    /// @param inputProof the proof for `encryptedAmount`
+    function unstake(externalEuint64 encryptedAmount, bytes calldata inputProof) external whenNotPaused {
+        euint64 requestedAmount = FHE.fromExternal(encryptedAmount, inputProof);
+        _withdraw(msg.sender, FLEXIBLE_POSITION, _stakes[msg.sender], requestedAmount);
+    }
+
+    /// @notice Unstakes from one of the caller's unlocked positions.
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param encryptedAmount the encrypted amount to unstake
+    /// @param inputProof the proof for `encryptedAmount`
+    function unstakePosition(
+        uint256 positionId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) external whenNotPaused {
+        StakeInfo storage info = _positionOf(msg.sender, positionId);
+        if (block.timestamp < info.unlockTime) {
+            revert PositionLocked(positionId, info.unlockTime);
+        }
+
+        euint64 requestedAmount = FHE.fromExternal(encryptedAmount, inputProof);
+        _withdraw(msg.sender, positionId, info, requestedAmount);
+    }
+
+    /// @notice Pays out every pending withdrawal of the caller that has matured.
+    function withdraw() external whenNotPaused {
+        euint64 released;
+        uint256[] storage withdrawalIds = _accountWithdrawalIds[msg.sender];
+        for (uint256 i = withdrawalIds.length; i > 0; --i) {
+            PendingWithdrawal storage pending = _pendingWithdrawals[withdrawalIds[i - 1]];
+            if (pending.maturity <= block.timestamp) {
+                released = FHE.add(released, pending.amount);
+                _removeWithdrawal(msg.sender, i - 1);
+            }
+        }
+
+        if (!FHE.isInitialized(released)) {
+            revert NothingToWithdraw();
+        }
+
+        _totalPrincipal = FHE.sub(_totalPrincipal, released);
+        _syncAccess(_totalPrincipal, owner());
+
+        _syncAccess(released, msg.sender);
+        _send(stakingToken, msg.sender, released);
+
+        emit Withdrawn(msg.sender, released);
+    }
+
+    /// @notice Puts one of the caller's pending withdrawals back into the position it was unstaked from, or
+    /// into the flexible stake once that position has been transferred or merged away.
+    /// @param withdrawalId the pending withdrawal
+    function cancelWithdrawal(uint256 withdrawalId) external whenNotPaused {
+        PendingWithdrawal storage pending = _pendingWithdrawals[withdrawalId];
+        if (pending.account != msg.sender) {
+            revert UnknownWithdrawal(withdrawalId);
+        }
+
+        uint256 positionId = pending.positionId;
+        euint64 amount = pending.amount;
+        uint256[] storage withdrawalIds = _accountWithdrawalIds[msg.sender];
+        for (uint256 i = 0; i < withdrawalIds.length; ++i) {
+            if (withdrawalIds[i] == withdrawalId) {
+                _removeWithdrawal(msg.sender, i);
+                break;
+            }
+        }
+
+        if (_positionOwners[positionId] != msg.sender) {
+            positionId = FLEXIBLE_POSITION;
+        }
+        StakeInfo storage info = _positionOf(msg.sender, positionId);
+        _accrueRewards(msg.sender, positionId, info);
+        info.principal = FHE.add(info.principal, amount);
+        _syncStakeAccess(info.principal, msg.sender);
         if (info.lastAccrued == 0) {
             info.lastAccrued = uint64(block.timestamp);
         }
 
-        emit Staked(msg.sender, transferred);
+        emit WithdrawalCancelled(msg.sender, withdrawalId);
+    }
+
+    /// @notice Moves one of the caller's positions to another account, e.g. when rotating wallets.
+    /// @dev A locked position keeps its id, tier and unlock time; the flexible position has no id of its own,
+    /// so it is merged into the recipient's flexible position. Pending withdrawals stay with the sender.
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param to the new owner
+    function transferPosition(uint256 positionId, address to) external whenNotPaused {
+        _checkRecipient(to);
+        if (positionId == FLEXIBLE_POSITION) {
+            _merge(msg.sender, positionId, to, FLEXIBLE_POSITION);
+            return;
+        }
+
+        StakeInfo storage info = _positionOf(msg.sender, positionId);
+        _accrueRewards(msg.sender, positionId, info);
+
+        _removePositionId(msg.sender, positionId);
+        _positionOwners[positionId] = to;
+        _accountPositionIds[to].push(positionId);
+
+        _syncStakeAccess(info.principal, to);
+        _syncStakeAccess(info.rewards, to);
+        _syncStakeAccess(info.bonus.rewards, to);
+
+        emit PositionTransferred(msg.sender, to, positionId, positionId);
     }
 
-    function unstake(externalEuint64 encryptedAmount, bytes calldata inputProof) external {
-        StakeInfo storage info = _stakes[msg.sender];
-        _accrueRewards(msg.sender, info);
+    /// @notice Folds one of the caller's positions into a position of another account.
+    /// @dev Both must share a tier and the target must not unlock before the source, so a merge can never
+    /// shorten a lock.
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param to the owner of the target position
+    /// @param targetPositionId the position to merge into
+    function mergePosition(uint256 positionId, address to, uint256 targetPositionId) external whenNotPaused {
+        _checkRecipient(to);
+        _merge(msg.sender, positionId, to, targetPositionId);
+    }
 
-        euint64 requestedAmount = FHE.fromExternal(encryptedAmount, inputProof);
+    /// @notice Lets `auditor` decrypt the caller's stake.
+    /// @param auditor the auditor
+    function grantAuditor(address auditor) external {
+        if (auditor == address(0) || auditor == msg.sender || _auditorIndex(msg.sender, auditor) != type(uint256).max) {
+            revert InvalidAuditor(auditor);
+        }
+        if (_auditors[msg.sender].length >= MAX_AUDITORS) {
+            revert TooManyAuditors();
+        }
+        _auditors[msg.sender].push(auditor);
 
-        (ebool success, euint64 updatedPrincipal) = info.principal.tryDecrease(requestedAmount);
-        info.principal = updatedPrincipal;
-        _syncAccess(info.principal, msg.sender);
+        // Share what the account already holds; later updates are shared by _syncStakeAccess.
+        _allowStake(_stakes[msg.sender], auditor);
+        uint256[] storage positionIds = _accountPositionIds[msg.sender];
+        for (uint256 i = 0; i < positionIds.length; ++i) {
+            _allowStake(_lockedPositions[positionIds[i]], auditor);
+        }
+        uint256[] storage withdrawalIds = _accountWithdrawalIds[msg.sender];
+        for (uint256 i = 0; i < withdrawalIds.length; ++i) {
+            FHE.allow(_pendingWithdrawals[withdrawalIds[i]].amount, auditor);
+        }
 
-        euint64 amountToTransfer = FHE.select(success, requestedAmount, FHE.asEuint64(0));
-        if (FHE.isInitialized(amountToTransfer)) {
-            FHE.allowTransient(amountToTransfer, address(stakingToken));
-            stakingToken.confidentialTransfer(msg.sender, amountToTransfer);
+        emit AuditorGranted(msg.sender, auditor);
+    }
+
+    /// @notice Stops sharing the caller's stake with `auditor`.
+    /// @dev ACL grants are permanent, so a revoked auditor keeps access to handles it was already given;
+    /// it is simply not granted any of the handles produced from now on.
+    /// @param auditor the auditor
+    function revokeAuditor(address auditor) external {
+        uint256 index = _auditorIndex(msg.sender, auditor);
+        if (index == type(uint256).max) {
+            revert InvalidAuditor(auditor);
         }
 
-        emit Unstaked(msg.sender, requestedAmount, amountToTransfer);
+        address[] storage auditors = _auditors[msg.sender];
+        auditors[index] = auditors[auditors.length - 1];
+        auditors.pop();
+
+        emit AuditorRevoked(msg.sender, auditor);
     }
 
-    function claimRewards() external {
-        StakeInfo storage info = _stakes[msg.sender];
-        _accrueRewards(msg.sender, info);
+    /// @notice The auditors of `account`.
+    /// @param account the account
+    /// @return The account's auditors
+    function getAuditors(address account) external view returns (address[] memory) {
+        return _auditors[account];
+    }
 
-        if (!FHE.isInitialized(info.rewards)) {
+    /// @notice Asks the decryption oracle to reveal the pool's total value locked.
+    /// @dev A request the oracle has not answered within TVL_REVEAL_INTERVAL expires and can be issued again;
+    /// the expired request's answer is then rejected.
+    /// @return requestId the oracle request
+    function requestTvlReveal() external returns (uint256 requestId) {
+        uint64 availableAt = _lastTvlRequestAt == 0 ? 0 : _lastTvlRequestAt + TVL_REVEAL_INTERVAL;
+        if (block.timestamp < availableAt) {
+            if (_tvlRequestPending) {
+                revert TvlRevealPending(_pendingTvlRequestId);
+            }
+            revert TvlRevealTooSoon(availableAt);
+        }
+
+        // Rewards only add to the locked value when they are denominated in the staking token.
+        euint64 totalValueLocked = _compoundable() ? FHE.add(_totalPrincipal, _totalRewards) : _principalOrZero();
+        FHE.allowThis(totalValueLocked);
+        requestId = NightStakingRewards.requestReveal(totalValueLocked, this.revealTvlCallback.selector);
+
+        _pendingTvlRequestId = requestId;
+        _tvlRequestPending = true;
+        _lastTvlRequestAt = uint64(block.timestamp);
+
+        emit TvlRevealRequested(requestId, totalValueLocked);
+    }
+
+    /// @notice Receives the decryption oracle's answer to `requestTvlReveal`.
+    /// @param requestId the answered oracle request
+    /// @param cleartexts the ABI-encoded revealed value
+    /// @param decryptionProof the oracle's signatures over `cleartexts`
+    function revealTvlCallback(uint256 requestId, bytes calldata cleartexts, bytes calldata decryptionProof) external {
+        if (!_tvlRequestPending || requestId != _pendingTvlRequestId) {
+            revert UnknownTvlRequest(requestId);
+        }
+        revealedTvl = NightStakingRewards.checkReveal(requestId, cleartexts, decryptionProof);
+        tvlRevealedAt = uint64(block.timestamp);
+        _tvlRequestPending = false;
+
+        emit TvlRevealed(requestId, revealedTvl, tvlRevealedAt);
+    }
+
+    /// @notice Earliest time the next TVL reveal can be requested; zero if none was requested yet.
+    /// @return The time of the next possible request
+    function nextTvlRevealAt() external view returns (uint64) {
+        return _lastTvlRequestAt == 0 ? 0 : _lastTvlRequestAt + TVL_REVEAL_INTERVAL;
+    }
+
+    /// @notice Starts the next epoch.
+    /// @dev Anyone may start the next epoch once the current one has run for its length and its reward per
+    /// share is known, so settling a finished epoch never has to wait for the oracle.
+    /// @return epochId the new epoch
+    function startEpoch() external returns (uint256 epochId) {
+        if (_emission.epochs.length == 0) {
+            revert EpochEmissionDisabled();
+        }
+        return _startEpoch();
+    }
+
+    /// @notice Sends the current epoch's unanswered reveal to the oracle again.
+    /// @dev Anyone may ask the oracle again once the current epoch's reveal has gone unanswered for an hour.
+    /// @return requestId the new oracle request
+    function retryEpochReveal() external returns (uint256 requestId) {
+        return NightStakingRewards.retryEpochReveal(_emission, this.finalizeEpochCallback.selector);
+    }
+
+    /// @notice Receives the decryption oracle's answer for the current epoch's total principal.
+    /// @param requestId the answered oracle request
+    /// @param cleartexts the ABI-encoded revealed value
+    /// @param decryptionProof the oracle's signatures over `cleartexts`
+    function finalizeEpochCallback(
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        NightStakingRewards.finalizeEpoch(_emission, requestId, cleartexts, decryptionProof);
+    }
+
+    /// @notice Reward budget of the next epoch.
+    /// @return The budget
+    function epochBudget() external view returns (uint64) {
+        return _emission.budget;
+    }
+
+    /// @notice Length of every epoch.
+    /// @return The length
+    function epochLength() external view returns (uint64) {
+        return _emission.length;
+    }
+
+    /// @notice Number of epochs started so far.
+    /// @return The number of epochs
+    function epochCount() external view returns (uint256) {
+        return _emission.epochs.length;
+    }
+
+    /// @notice An epoch by id, counting from 1.
+    /// @param epochId the epoch
+    /// @return The epoch
+    function getEpoch(uint256 epochId) external view returns (NightStakingRewards.Epoch memory) {
+        if (epochId == 0 || epochId > _emission.epochs.length) {
+            revert UnknownEpoch(epochId);
+        }
+        return _emission.epochs[epochId - 1];
+    }
+
+    /// @notice Claims the rewards of the caller's flexible position.
+    function claimRewards() external whenNotPaused {
+        _claim(msg.sender, FLEXIBLE_POSITION, _stakes[msg.sender]);
+    }
+
+    /// @notice Claims the rewards of one of the caller's positions.
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    function claimPositionRewards(uint256 positionId) external whenNotPaused {
+        _claim(msg.sender, positionId, _positionOf(msg.sender, positionId));
+    }
+
+    /// @notice Claims the bonus rewards of one of the caller's positions.
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    function claimBonusRewards(uint256 positionId) external whenNotPaused {
+        StakeInfo storage info = _positionOf(msg.sender, positionId);
+        _accrueRewards(msg.sender, positionId, info);
+
+        if (!FHE.isInitialized(info.bonus.rewards)) {
             revert NoRewards();
         }
 
-        euint64 rewardsToSend = info.rewards;
-        info.rewards = euint64.wrap(bytes32(0));
+        euint64 paid = NightStakingRewards.payStream(_bonus, info.bonus, msg.sender);
+        _syncStakeAccess(info.bonus.rewards, msg.sender);
+        _syncAccess(_bonus.reserve, owner());
+        _syncAccess(paid, msg.sender);
+
+        emit BonusRewardsClaimed(msg.sender, positionId, paid);
+    }
 
-        FHE.allowTransient(rewardsToSend, address(stakingToken));
-        stakingToken.confidentialTransfer(msg.sender, rewardsToSend);
+    /// @notice Restakes the rewards of the caller's flexible position.
+    function compound() external whenNotPaused {
+        _compoundPosition(msg.sender, FLEXIBLE_POSITION, _stakes[msg.sender]);
+    }
 
-        emit RewardsClaimed(msg.sender, rewardsToSend);
+    /// @notice Restakes the rewards of one of the caller's positions.
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    function compoundPosition(uint256 positionId) external whenNotPaused {
+        _compoundPosition(msg.sender, positionId, _positionOf(msg.sender, positionId));
     }
 
-    function getStake(address account)
+    /// @notice Turns automatic compounding of the caller's rewards on or off.
+    /// @param enabled whether rewards compound on every interaction
+    function setAutoCompound(bool enabled) external whenNotPaused {
+        if (enabled && !_compoundable()) {
+            revert CompoundingUnsupported();
+        }
+        // Settle what was earned under the previous setting before switching.
+        _accrueRewards(msg.sender, FLEXIBLE_POSITION, _stakes[msg.sender]);
+        uint256[] storage positionIds = _accountPositionIds[msg.sender];
+        for (uint256 i = 0; i < positionIds.length; ++i) {
+            _accrueRewards(msg.sender, positionIds[i], _lockedPositions[positionIds[i]]);
+        }
+
+        _autoCompound[msg.sender] = enabled;
+        emit AutoCompoundSet(msg.sender, enabled);
+    }
+
+    /// @notice Returns all of the caller's principal while the pool is paused.
+    /// @dev Only available while paused: returns all principal, locked or not, without running accrual and
+    /// forfeits every reward the account was owed, so it keeps working if reward logic is at fault.
+    function emergencyWithdraw() external whenPaused {
+        (euint64 principal, euint64 forfeited) = _release(_stakes[msg.sender]);
+        delete _stakes[msg.sender];
+
+        uint256[] storage positionIds = _accountPositionIds[msg.sender];
+        for (uint256 i = 0; i < positionIds.length; ++i) {
+            (euint64 positionPrincipal, euint64 positionRewards) = _release(_lockedPositions[positionIds[i]]);
+            principal = FHE.add(principal, positionPrincipal);
+            forfeited = FHE.add(forfeited, positionRewards);
+            delete _lockedPositions[positionIds[i]];
+            delete _positionOwners[positionIds[i]];
+        }
+        delete _accountPositionIds[msg.sender];
+
+        uint256[] storage withdrawalIds = _accountWithdrawalIds[msg.sender];
+        for (uint256 i = withdrawalIds.length; i > 0; --i) {
+            principal = FHE.add(principal, _pendingWithdrawals[withdrawalIds[i - 1]].amount);
+            _removeWithdrawal(msg.sender, i - 1);
+        }
+
+        _totalPrincipal = FHE.sub(_totalPrincipal, principal);
+        _syncAccess(_totalPrincipal, owner());
+        _totalRewards = FHE.sub(_totalRewards, forfeited);
+        _syncAccess(_totalRewards, owner());
+
+        _lastUnstaked[msg.sender] = principal;
+        _syncAccess(principal, msg.sender);
+        _syncAccess(forfeited, msg.sender);
+
+        _send(stakingToken, msg.sender, principal);
+
+        emit EmergencyWithdrawn(msg.sender, principal, forfeited);
+    }
+
+    /// @notice Time until which withdrawing from the position is penalised; zero when no penalty applies.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @return The end of the penalty window
+    function earlyUnstakePenaltyEndsAt(address account, uint256 positionId) external view returns (uint64) {
+        return _penaltyEnd(_positionOf(account, positionId));
+    }
+
+    /// @notice Whether the rewards of `account` compound automatically.
+    /// @param account the account
+    /// @return True when auto-compounding is on
+    function isAutoCompounding(address account) external view returns (bool) {
+        return _autoCompound[account];
+    }
+
+    /// @notice Lock duration and reward boost of a tier.
+    /// @param tier the lock tier
+    /// @return lockDuration how long positions of the tier stay locked
+    /// @return rewardBoost the tier's reward weight, over BOOST_DIVISOR
+    function getLockTier(LockTier tier) public pure returns (uint64 lockDuration, uint32 rewardBoost) {
+        if (tier == LockTier.Days7) {
+            return (7 * SECONDS_PER_DAY, 11_000);
+        }
+        if (tier == LockTier.Days30) {
+            return (30 * SECONDS_PER_DAY, 12_500);
+        }
+        if (tier == LockTier.Days90) {
+            return (90 * SECONDS_PER_DAY, 15_000);
+        }
+        return (0, BOOST_DIVISOR);
+    }
+
+    /// @notice The locked positions of `account`.
+    /// @param account the account
+    /// @return The account's position ids
+    function getPositionIds(address account) external view returns (uint256[] memory) {
+        return _accountPositionIds[account];
+    }
+
+    /// @notice A locked position by id.
+    /// @param positionId the position
+    /// @return account the position's owner
+    /// @return tier the position's lock tier
+    /// @return unlockTime when the position can be unstaked
+    /// @return principal the position's principal
+    /// @return rewards the position's rewards
+    /// @return lastAccrued when rewards were last credited
+    function getPosition(
+        uint256 positionId
+    )
         external
         view
-        returns (euint64 principal, euint64 rewards, uint64 lastAccrued)
+        returns (
+            address account,
+            LockTier tier,
+            uint64 unlockTime,
+            euint64 principal,
+            euint64 rewards,
+            uint64 lastAccrued
+        )
     {
+        account = _positionOwners[positionId];
+        if (account == address(0)) {
+            revert UnknownPosition(positionId);
+        }
+
+        StakeInfo storage info = _lockedPositions[positionId];
+        return (account, info.tier, info.unlockTime, info.principal, info.rewards, info.lastAccrued);
+    }
+
+    /// @notice The pending withdrawals of `account`.
+    /// @param account the account
+    /// @return The account's withdrawal ids
+    function getPendingWithdrawalIds(address account) external view returns (uint256[] memory) {
+        return _accountWithdrawalIds[account];
+    }
+
+    /// @notice A pending withdrawal by id.
+    /// @param withdrawalId the pending withdrawal
+    /// @return account the withdrawal's owner
+    /// @return positionId the position it was unstaked from
+    /// @return amount the amount queued
+    /// @return maturity when it can be withdrawn
+    function getPendingWithdrawal(
+        uint256 withdrawalId
+    ) external view returns (address account, uint256 positionId, euint64 amount, uint64 maturity) {
+        PendingWithdrawal storage pending = _pendingWithdrawals[withdrawalId];
+        if (pending.account == address(0)) {
+            revert UnknownWithdrawal(withdrawalId);
+        }
+        return (pending.account, pending.positionId, pending.amount, pending.maturity);
+    }
+
+    /// @notice The flexible position of `account`.
+    /// @param account the account
+    /// @return principal the position's principal
+    /// @return rewards the position's rewards
+    /// @return lastAccrued when rewards were last credited
+    function getStake(address account) external view returns (euint64 principal, euint64 rewards, uint64 lastAccrued) {
         StakeInfo storage info = _stakes[account];
         return (info.principal, info.rewards, info.lastAccrued);
     }
 
+    /// @notice A position's principal and every reward balance it earns.
+    /// @dev Extends getStake to any position and every reward token it earns: the main reward token first,
+    /// then the bonus token once one is set.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @return principal the position's principal
+    /// @return rewards the position's balance of each reward token
+    function getStakeDetails(
+        address account,
+        uint256 positionId
+    ) external view returns (euint64 principal, RewardBalance[] memory rewards) {
+        StakeInfo storage info = _positionOf(account, positionId);
+        rewards = new RewardBalance[](address(_bonus.token) == address(0) ? 1 : 2);
+        rewards[0] = RewardBalance(rewardToken, info.rewards, info.lastAccrued);
+        if (rewards.length > 1) {
+            rewards[1] = RewardBalance(_bonus.token, info.bonus.rewards, info.bonus.lastAccrued);
+        }
+        return (info.principal, rewards);
+    }
+
+    /// @notice Whether the latest claim of `account` was paid in full.
+    /// @param account the account
+    /// @return The encrypted flag
+    function getLastClaimResult(address account) external view returns (ebool) {
+        return _lastClaimFullyPaid[account];
+    }
+
+    /// @notice How much the latest stake `account` made actually moved.
+    /// @param account the account
+    /// @return The encrypted amount
+    function getLastStakeResult(address account) external view returns (euint64) {
+        return _lastStaked[account];
+    }
+
+    /// @notice How much the latest unstake of `account` actually moved.
+    /// @param account the account
+    /// @return The encrypted amount
+    function getLastUnstakeResult(address account) external view returns (euint64) {
+        return _lastUnstaked[account];
+    }
+
+    /// @notice The pool's encrypted totals; only the owner can decrypt them.
+    /// @return totalPrincipal the principal staked
+    /// @return totalRewards the rewards owed
+    /// @return rewardReserve the tokens available to pay rewards
+    function getLiabilities()
+        external
+        view
+        returns (euint64 totalPrincipal, euint64 totalRewards, euint64 rewardReserve)
+    {
+        return (_totalPrincipal, _totalRewards, _rewardReserve);
+    }
+
+    /// @notice The daily reward rate that applies now.
+    /// @return The daily rate
+    function currentRewardRate() external view returns (uint32) {
+        return _rateCheckpoints[_rateCheckpoints.length - 1].dailyRate;
+    }
+
+    /// @notice The daily reward rate that applied at `timestamp`.
+    /// @param timestamp the time to look up
+    /// @return The daily rate
+    function rewardRateAt(uint64 timestamp) external view returns (uint32) {
+        return NightStakingRewards.rateAt(_rateCheckpoints, timestamp);
+    }
+
+    /// @notice Every reward rate change, oldest first.
+    /// @return The rate checkpoints
+    function getRateCheckpoints() external view returns (NightStakingRewards.RateCheckpoint[] memory) {
+        return _rateCheckpoints;
+    }
+
+    /// @notice The bonus reward token, its current rate and its reserve.
+    /// @dev The reserve can only be decrypted by the owner.
+    /// @return token the bonus reward token
+    /// @return dailyRate the current daily bonus rate
+    /// @return reserve the bonus reserve
+    function getBonusRewards() external view returns (IERC7984 token, uint32 dailyRate, euint64 reserve) {
+        return (_bonus.token, NightStakingRewards.rateAt(_bonus.rates, uint64(block.timestamp)), _bonus.reserve);
+    }
+
+    /// @notice The rewards of the flexible position of `account` if it were settled now.
+    /// @param account the account
+    /// @return The encrypted rewards
     function pendingRewards(address account) external returns (euint64) {
         StakeInfo storage info = _stakes[account];
-        if (!FHE.isInitialized(info.principal)) {
+        euint64 accrued = _epochRewards(info);
+        uint64 accrueUntil = _accrualEnd(info);
+        if (accrueUntil != 0) {
+            (euint64 accruedAtRate, ) = _accruedBetween(info, info.lastAccrued, accrueUntil);
+            accrued = FHE.add(accrued, accruedAtRate);
+        }
+        if (!FHE.isInitialized(accrued)) {
             return info.rewards;
         }
 
-        uint64 lastAccrued = info.lastAccrued;
-        if (lastAccrued == 0 || block.timestamp <= lastAccrued) {
-            return info.rewards;
+        euint64 preview = FHE.add(info.rewards, accrued);
+        _syncAccess(preview, account);
+
+        return preview;
+    }
+
+    /// @notice Opens an empty locked position for `account`.
+    /// @param account the account
+    /// @param tier the lock tier
+    /// @return positionId the new position
+    function _openPosition(address account, LockTier tier) private returns (uint256 positionId) {
+        if (tier == LockTier.Flexible) {
+            revert InvalidLockTier(tier);
         }
 
-        uint64 elapsedSeconds = uint64(block.timestamp) - lastAccrued;
-        uint64 elapsedDays = elapsedSeconds / SECONDS_PER_DAY;
-        if (elapsedDays == 0) {
-            return info.rewards;
+        (uint64 lockDuration, ) = getLockTier(tier);
+        uint64 unlockTime = uint64(block.timestamp) + lockDuration;
+
+        positionId = ++_lastPositionId;
+        _positionOwners[positionId] = account;
+        _accountPositionIds[account].push(positionId);
+
+        StakeInfo storage info = _lockedPositions[positionId];
+        info.tier = tier;
+        info.unlockTime = unlockTime;
+
+        emit PositionOpened(account, positionId, tier, unlockTime);
+    }
+
+    /// @notice Pulls `amount` from `funder` and credits what arrived to a position of `account`.
+    /// @param funder the account paying for the deposit
+    /// @param account the position's owner
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param info the position's stake
+    /// @param amount the encrypted amount to pull
+    function _deposit(
+        address funder,
+        address account,
+        uint256 positionId,
+        StakeInfo storage info,
+        euint64 amount
+    ) private {
+        euint64 transferred = _pull(stakingToken, funder, amount);
+        _credit(funder, account, positionId, info, transferred);
+    }
+
+    /// @notice Credits tokens that already arrived to a position of `account`.
+    /// @param funder the account paying for the deposit
+    /// @param account the position's owner
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param info the position's stake
+    /// @param transferred the amount that arrived
+    function _credit(
+        address funder,
+        address account,
+        uint256 positionId,
+        StakeInfo storage info,
+        euint64 transferred
+    ) private {
+        _accrueRewards(account, positionId, info);
+
+        info.principal = FHE.add(info.principal, transferred);
+        _syncStakeAccess(info.principal, account);
+
+        _totalPrincipal = FHE.add(_totalPrincipal, transferred);
+        _syncAccess(_totalPrincipal, owner());
+
+        if (info.lastAccrued == 0) {
+            info.lastAccrued = uint64(block.timestamp);
+        }
+        // Only the owner's own deposits restart its early-unstake window, so no one can extend someone else's.
+        if (funder == account) {
+            info.lastDeposit = uint64(block.timestamp);
         }
 
-        euint64 accrued = FHE.mul(info.principal, elapsedDays);
-        accrued = FHE.div(accrued, RATE_DIVISOR);
+        // The result is the funder's to check, so staking on someone's behalf leaves their own last result alone.
+        _lastStaked[funder] = transferred;
+        _syncAccess(transferred, funder);
+        if (funder != account) {
+            FHE.allow(transferred, account);
+        }
 
-        euint64 preview = FHE.add(info.rewards, accrued);
-        _syncAccess(preview, account);
+        emit Staked(account, positionId, transferred);
+    }
 
-        return preview;
+    /// @notice Takes `requestedAmount` out of a position, paying or queueing it.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param info the position's stake
+    /// @param requestedAmount the encrypted amount to unstake
+    function _withdraw(address account, uint256 positionId, StakeInfo storage info, euint64 requestedAmount) private {
+        _accrueRewards(account, positionId, info);
+
+        (ebool success, euint64 updatedPrincipal) = info.principal.tryDecrease(requestedAmount);
+        info.principal = updatedPrincipal;
+        _syncStakeAccess(info.principal, account);
+
+        if (info.epoch != 0) {
+            info.epochPrincipal = FHE.min(info.epochPrincipal, updatedPrincipal);
+            _syncAccess(info.epochPrincipal, address(0));
+        }
+
+        euint64 amountToTransfer = FHE.select(success, requestedAmount, FHE.asEuint64(0));
+        if (block.timestamp < _penaltyEnd(info)) {
+            amountToTransfer = _chargePenalty(account, positionId, amountToTransfer);
+        }
+        _lastUnstaked[account] = amountToTransfer;
+        _syncAccess(amountToTransfer, account);
+
+        // Queued principal stays in the pool totals until it is withdrawn.
+        if (unbondingPeriod > 0) {
+            _queueWithdrawal(account, positionId, amountToTransfer);
+        } else {
+            _totalPrincipal = FHE.sub(_totalPrincipal, amountToTransfer);
+            _syncAccess(_totalPrincipal, owner());
+
+            if (FHE.isInitialized(amountToTransfer)) {
+                _send(stakingToken, account, amountToTransfer);
+            }
+        }
+
+        emit Unstaked(account, positionId, requestedAmount, amountToTransfer);
     }
 
-    function _accrueRewards(address account, StakeInfo storage info) private {
-        if (!FHE.isInitialized(info.principal)) {
+    /// @notice Withholds the early-unstake penalty from `amount` and moves it from principal into the reward
+    /// reserve.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param amount the amount being withdrawn
+    /// @return What remains after the penalty
+    function _chargePenalty(address account, uint256 positionId, euint64 amount) private returns (euint64) {
+        euint64 penalty = NightStakingRewards.mulDiv(amount, earlyUnstakePenaltyRate, RATE_DIVISOR);
+
+        _totalPrincipal = FHE.sub(_totalPrincipal, penalty);
+        _syncAccess(_totalPrincipal, owner());
+        _rewardReserve = FHE.add(_rewardReserve, penalty);
+        _syncAccess(_rewardReserve, owner());
+
+        _syncAccess(penalty, account);
+        emit EarlyUnstakePenaltyCharged(account, positionId, penalty);
+
+        return FHE.sub(amount, penalty);
+    }
+
+    /// @notice Queues `amount` until the unbonding period has passed.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param amount the amount to queue
+    function _queueWithdrawal(address account, uint256 positionId, euint64 amount) private {
+        uint64 maturity = uint64(block.timestamp) + unbondingPeriod;
+        uint256 withdrawalId = ++_lastWithdrawalId;
+        _pendingWithdrawals[withdrawalId] = PendingWithdrawal({
+            account: account,
+            positionId: positionId,
+            amount: amount,
+            maturity: maturity
+        });
+        _accountWithdrawalIds[account].push(withdrawalId);
+        _shareWithAuditors(amount, account);
+
+        emit WithdrawalRequested(account, withdrawalId, positionId, amount, maturity);
+    }
+
+    /// @notice Removes a pending withdrawal of `account`.
+    /// @dev Swap-and-pop; callers iterating forwards must not rely on the order of the remaining ids.
+    /// @param account the account
+    /// @param index the withdrawal's index in the account's list
+    function _removeWithdrawal(address account, uint256 index) private {
+        uint256[] storage withdrawalIds = _accountWithdrawalIds[account];
+        delete _pendingWithdrawals[withdrawalIds[index]];
+        withdrawalIds[index] = withdrawalIds[withdrawalIds.length - 1];
+        withdrawalIds.pop();
+    }
+
+    /// @notice Rejects the zero address and the caller as recipients.
+    /// @param to the recipient
+    function _checkRecipient(address to) private view {
+        if (to == address(0) || to == msg.sender) {
+            revert InvalidRecipient(to);
+        }
+    }
+
+    /// @notice Folds a position of `from` into a position of `to`.
+    /// @param from the source's owner
+    /// @param positionId the source position
+    /// @param to the target's owner
+    /// @param targetPositionId the target position
+    function _merge(address from, uint256 positionId, address to, uint256 targetPositionId) private {
+        StakeInfo storage source = _positionOf(from, positionId);
+        StakeInfo storage target = _positionOf(to, targetPositionId);
+        if (source.tier != target.tier || target.unlockTime < source.unlockTime) {
+            revert IncompatiblePositions(positionId, targetPositionId);
+        }
+        if (!FHE.isInitialized(source.principal)) {
+            revert NothingToTransfer();
+        }
+
+        // Bring both up to date first so each side is credited under its own accrual settings.
+        bool freshTarget = !FHE.isInitialized(target.principal);
+        _accrueRewards(from, positionId, source);
+        _accrueRewards(to, targetPositionId, target);
+
+        target.principal = FHE.add(target.principal, source.principal);
+        _syncStakeAccess(target.principal, to);
+        target.rewards = FHE.add(target.rewards, source.rewards);
+        _syncStakeAccess(target.rewards, to);
+        target.accrualRemainder = FHE.add(target.accrualRemainder, source.accrualRemainder);
+        _syncAccess(target.accrualRemainder, address(0));
+        _syncStakeAccess(NightStakingRewards.mergeStream(target.bonus, source.bonus), to);
+        // Both sides were just settled into the current epoch, so the source's eligible principal adds to the
+        // target's; an empty target starts from none and ends up with exactly the source's.
+        if (FHE.isInitialized(source.epochPrincipal)) {
+            target.epochPrincipal = FHE.add(target.epochPrincipal, source.epochPrincipal);
+            _syncAccess(target.epochPrincipal, address(0));
+        }
+        // An empty target takes over the source's clock, so a partial day in step mode is not lost, and its
+        // early-unstake window, so moving a deposit does not waive the penalty. A funded target keeps its own
+        // window, which only the recipient's deposits restart.
+        if (freshTarget) {
+            target.lastAccrued = source.lastAccrued;
+            target.lastDeposit = source.lastDeposit;
+        }
+
+        if (positionId == FLEXIBLE_POSITION) {
+            delete _stakes[from];
+        } else {
+            _removePositionId(from, positionId);
+            delete _positionOwners[positionId];
+            delete _lockedPositions[positionId];
+        }
+
+        emit PositionTransferred(from, to, positionId, targetPositionId);
+    }
+
+    /// @notice Drops `positionId` from the positions of `account`.
+    /// @param account the account
+    /// @param positionId the position
+    function _removePositionId(address account, uint256 positionId) private {
+        uint256[] storage positionIds = _accountPositionIds[account];
+        for (uint256 i = 0; i < positionIds.length; ++i) {
+            if (positionIds[i] == positionId) {
+                positionIds[i] = positionIds[positionIds.length - 1];
+                positionIds.pop();
+                return;
+            }
+        }
+    }
+
+    /// @notice Pays out a position's rewards.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param info the position's stake
+    function _claim(address account, uint256 positionId, StakeInfo storage info) private {
+        _accrueRewards(account, positionId, info);
+
+        if (!FHE.isInitialized(info.rewards)) {
+            revert NoRewards();
+        }
+
+        euint64 owed = info.rewards;
+        euint64 rewardsToSend = _drawRewards(account, info);
+        ebool fullyPaid = FHE.eq(rewardsToSend, owed);
+
+        _lastClaimFullyPaid[account] = fullyPaid;
+        _syncAccess(fullyPaid, account);
+
+        _send(rewardToken, account, rewardsToSend);
+
+        emit RewardsClaimed(account, positionId, rewardsToSend, fullyPaid);
+    }
+
+    /// @notice Restakes a position's rewards.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param info the position's stake
+    function _compoundPosition(address account, uint256 positionId, StakeInfo storage info) private {
+        if (!_compoundable()) {
+            revert CompoundingUnsupported();
+        }
+        _accrueRewards(account, positionId, info);
+
+        if (!FHE.isInitialized(info.rewards)) {
+            revert NoRewards();
+        }
+
+        _compound(account, positionId, info);
+    }
+
+    /// @notice A position of `account`, reverting when it belongs to someone else.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @return The position's stake
+    function _positionOf(address account, uint256 positionId) private view returns (StakeInfo storage) {
+        if (positionId == FLEXIBLE_POSITION) {
+            return _stakes[account];
+        }
+        if (_positionOwners[positionId] != account) {
+            revert UnknownPosition(positionId);
+        }
+        return _lockedPositions[positionId];
+    }
+
+    /// @notice Credits a position with what it earned since it was last settled.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param info the position's stake
+    function _accrueRewards(address account, uint256 positionId, StakeInfo storage info) private {
+        if (address(_bonus.token) != address(0)) {
+            (, uint32 rewardBoost) = getLockTier(info.tier);
+            _syncStakeAccess(
+                NightStakingRewards.accrueStream(_bonus, info.bonus, info.principal, rewardBoost, ACCRUAL_SCALE),
+                account
+            );
+        }
+
+        if (!FHE.isInitialized(info.principal) || info.lastAccrued == 0) {
             info.lastAccrued = uint64(block.timestamp);
+            info.epoch = uint64(_emission.epochs.length);
             return;
         }
 
+        euint64 accrued = _epochRewards(info);
+        if (info.epoch != _emission.epochs.length) {
+            info.epoch = uint64(_emission.epochs.length);
+            info.epochPrincipal = info.principal;
+        }
+
+        uint64 accrueUntil = _accrualEnd(info);
+        if (accrueUntil != 0) {
+            (euint64 accruedAtRate, euint64 remainder) = _accruedBetween(info, info.lastAccrued, accrueUntil);
+            info.accrualRemainder = remainder;
+            _syncAccess(info.accrualRemainder, address(0));
+            info.lastAccrued = accrueUntil;
+            accrued = FHE.add(accrued, accruedAtRate);
+        }
+        if (!FHE.isInitialized(accrued)) {
+            return;
+        }
+
+        info.rewards = FHE.add(info.rewards, accrued);
+        _syncStakeAccess(info.rewards, account);
+
+        _totalRewards = FHE.add(_totalRewards, accrued);
+        _syncAccess(_totalRewards, owner());
+
+        if (_autoCompound[account]) {
+            _compound(account, positionId, info);
+        }
+    }
+
+    /// @notice Restakes as much of a position's rewards as the reserve can back.
+    /// @param account the account
+    /// @param positionId the position, FLEXIBLE_POSITION for the flexible stake
+    /// @param info the position's stake
+    function _compound(address account, uint256 positionId, StakeInfo storage info) private {
+        euint64 compounded = _drawRewards(account, info);
+
+        info.principal = FHE.add(info.principal, compounded);
+        _syncStakeAccess(info.principal, account);
+
+        _totalPrincipal = FHE.add(_totalPrincipal, compounded);
+        _syncAccess(_totalPrincipal, owner());
+
+        _syncAccess(compounded, account);
+        emit Compounded(account, positionId, compounded);
+    }
+
+    /// @notice Moves a position's rewards out of the reserve.
+    /// @dev Moves as much of the account's rewards out of the reserve as it can cover; whatever cannot be
+    /// paid stays owed. Both claims and compounding go through here so restaked rewards are always
+    /// backed by tokens the contract actually holds.
+    /// @param account the account
+    /// @param info the position's stake
+    /// @return drawn the amount moved
+    function _drawRewards(address account, StakeInfo storage info) private returns (euint64 drawn) {
+        drawn = FHE.min(info.rewards, _rewardReserve);
+
+        info.rewards = FHE.sub(info.rewards, drawn);
+        _syncStakeAccess(info.rewards, account);
+
+        _totalRewards = FHE.sub(_totalRewards, drawn);
+        _syncAccess(_totalRewards, owner());
+
+        _rewardReserve = FHE.sub(_rewardReserve, drawn);
+        _syncAccess(_rewardReserve, owner());
+    }
+
+    /// @notice Timestamp fixed-rate rewards can be credited up to right now.
+    /// @param info the position's stake
+    /// @return The timestamp, or zero when nothing is due
+    function _accrualEnd(StakeInfo storage info) private view returns (uint64) {
         uint64 lastAccrued = info.lastAccrued;
         uint64 currentTime = uint64(block.timestamp);
+        if (_emission.epochs.length > 0 && currentTime > _emission.epochs[0].startedAt) {
+            currentTime = _emission.epochs[0].startedAt;
+        }
+        if (!FHE.isInitialized(info.principal) || lastAccrued == 0 || currentTime <= lastAccrued) {
+            return 0;
+        }
 
-        if (lastAccrued == 0) {
-            info.lastAccrued = currentTime;
-            return;
+        if (accrualMode == AccrualMode.PerSecond) {
+            return currentTime;
         }
 
-        if (currentTime <= lastAccrued) {
-            return;
+        uint64 elapsedDays = (currentTime - lastAccrued) / SECONDS_PER_DAY;
+        return elapsedDays == 0 ? 0 : lastAccrued + (elapsedDays * SECONDS_PER_DAY);
+    }
+
+    /// @notice Fixed-rate rewards of a position between two timestamps.
+    /// @param info the position's stake
+    /// @param from the start of the period
+    /// @param to the end of the period
+    /// @return accrued the rewards earned
+    /// @return remainder what was rounded away
+    function _accruedBetween(
+        StakeInfo storage info,
+        uint64 from,
+        uint64 to
+    ) private returns (euint64 accrued, euint64 remainder) {
+        // Rewards are principal * rate-seconds * boost / (RATE_DIVISOR * SECONDS_PER_DAY * BOOST_DIVISOR).
+        (, uint32 rewardBoost) = getLockTier(info.tier);
+        return
+            NightStakingRewards.accrueAtRate(
+                _rateCheckpoints,
+                from,
+                to,
+                info.principal,
+                rewardBoost,
+                ACCRUAL_SCALE,
+                info.accrualRemainder
+            );
+    }
+
+    /// @notice Epoch rewards a position earned since it was last settled.
+    /// @param info the position's stake
+    /// @return The rewards, uninitialized when nothing is due
+    function _epochRewards(StakeInfo storage info) private returns (euint64) {
+        return NightStakingRewards.epochRewards(_emission, info.epoch, info.epochPrincipal, info.principal);
+    }
+
+    /// @notice Starts the next epoch with the current total principal.
+    /// @return epochId the new epoch
+    function _startEpoch() private returns (uint256 epochId) {
+        euint64 totalPrincipal = _principalOrZero();
+        FHE.allowThis(totalPrincipal);
+        return NightStakingRewards.startEpoch(_emission, totalPrincipal, this.finalizeEpochCallback.selector);
+    }
+
+    /// @notice The total principal, as a zero handle while nothing has been staked.
+    /// @dev Nothing has been staked yet while the total is uninitialized.
+    /// @return The total principal
+    function _principalOrZero() private returns (euint64) {
+        return FHE.isInitialized(_totalPrincipal) ? _totalPrincipal : FHE.asEuint64(0);
+    }
+
+    /// @notice Pulls `amount` of `token` from `from` through its operator grant.
+    /// @param token the token
+    /// @param from the account to pull from
+    /// @param amount the amount to pull
+    /// @return The amount that arrived
+    function _pull(IERC7984 token, address from, euint64 amount) private returns (euint64) {
+        FHE.allowTransient(amount, address(token));
+        return token.confidentialTransferFrom(from, address(this), amount);
+    }
+
+    /// @notice Sends `amount` of `token` to `to`.
+    /// @param token the token
+    /// @param to the recipient
+    /// @param amount the amount to send
+    function _send(IERC7984 token, address to, euint64 amount) private {
+        FHE.allowTransient(amount, address(token));
+        token.confidentialTransfer(to, amount);
+    }
+
+    /// @notice When withdrawals from a position stop being penalised.
+    /// @param info the position's stake
+    /// @return The end of the penalty window, or zero
+    function _penaltyEnd(StakeInfo storage info) private view returns (uint64) {
+        if (earlyUnstakePenaltyRate == 0 || info.lastDeposit == 0) {
+            return 0;
         }
+        return info.lastDeposit + earlyUnstakeWindow;
+    }
 
-        uint64 elapsedSeconds = currentTime - lastAccrued;
-        uint64 elapsedDays = elapsedSeconds / SECONDS_PER_DAY;
-        if (elapsedDays == 0) {
-            return;
+    /// @notice Whether rewards are paid in the staking token.
+    /// @return True when rewards can be restaked
+    function _compoundable() private view returns (bool) {
+        return address(rewardToken) == address(stakingToken);
+    }
+
+    /// @notice A position's principal and rewards, counting uninitialized balances as zero so that empty
+    /// positions can be released too.
+    /// @param info the position's stake
+    /// @return principal the position's principal
+    /// @return rewards the position's rewards
+    function _release(StakeInfo storage info) private returns (euint64 principal, euint64 rewards) {
+        principal = FHE.isInitialized(info.principal) ? info.principal : FHE.asEuint64(0);
+        rewards = FHE.isInitialized(info.rewards) ? info.rewards : FHE.asEuint64(0);
+    }
+
+    /// @notice Hands the pool totals over to the new owner along with ownership.
+    /// @param newOwner the new owner
+    function _transferOwnership(address newOwner) internal override {
+        super._transferOwnership(newOwner);
+        _syncAccess(_totalPrincipal, newOwner);
+        _syncAccess(_totalRewards, newOwner);
+        _syncAccess(_rewardReserve, newOwner);
+        _syncAccess(_bonus.reserve, newOwner);
+    }
+
+    /// @notice Shares a stake handle with the pool, its owner and the owner's auditors.
+    /// @param value the handle to share
+    /// @param account the stake's owner
+    function _syncStakeAccess(euint64 value, address account) private {
+        _syncAccess(value, account);
+        if (FHE.isInitialized(value)) {
+            _shareWithAuditors(value, account);
         }
+    }
 
-        euint64 accrued = FHE.mul(info.principal, elapsedDays);
-        accrued = FHE.div(accrued, RATE_DIVISOR);
+    /// @notice Shares a handle with the auditors of `account`.
+    /// @param value the handle to share
+    /// @param account the account
+    function _shareWithAuditors(euint64 value, address account) private {
+        address[] storage auditors = _auditors[account];
+        for (uint256 i = 0; i < auditors.length; ++i) {
+            FHE.allow(value, auditors[i]);
+        }
+    }
 
-        info.rewards = FHE.add(info.rewards, accrued);
-        _syncAccess(info.rewards, account);
+    /// @notice Shares a position's current balances with `auditor`.
+    /// @param info the position's stake
+    /// @param auditor the auditor
+    function _allowStake(StakeInfo storage info, address auditor) private {
+        if (FHE.isInitialized(info.principal)) {
+            FHE.allow(info.principal, auditor);
+        }
+        if (FHE.isInitialized(info.rewards)) {
+            FHE.allow(info.rewards, auditor);
+        }
+        if (FHE.isInitialized(info.bonus.rewards)) {
+            FHE.allow(info.bonus.rewards, auditor);
+        }
+    }
 
-        info.lastAccrued = lastAccrued + (elapsedDays * SECONDS_PER_DAY);
+    /// @notice Index of `auditor` among the auditors of `account`.
+    /// @param account the account
+    /// @param auditor the auditor
+    /// @return The index, or the maximum uint256 when not found
+    function _auditorIndex(address account, address auditor) private view returns (uint256) {
+        address[] storage auditors = _auditors[account];
+        for (uint256 i = 0; i < auditors.length; ++i) {
+            if (auditors[i] == auditor) {
+                return i;
+            }
+        }
+        return type(uint256).max;
     }
 
+    /// @notice Allows the pool, and `account` unless it is zero, to use `value`.
+    /// @param value the handle to share
+    /// @param account the account to allow, or the zero address
     function _syncAccess(euint64 value, address account) private {
         if (!FHE.isInitialized(value)) {
             return;
@@ -165,4 +1707,18 @@ contract NightStaking is SepoliaConfig {
             FHE.allow(value, account);
         }
     }
+
+    /// @notice Allows the pool, and `account` unless it is zero, to use `value`.
+    /// @param value the handle to share
+    /// @param account the account to allow, or the zero address
+    function _syncAccess(ebool value, address account) private {
+        if (!FHE.isInitialized(value)) {
+            return;
+        }
+
+        FHE.allowThis(value);
+        if (account != address(0)) {
+            FHE.allow(value, account);
+        }
+    }
 }
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+import {Clones} from "@openzeppelin/contracts/proxy/Clones.sol";
+import {NightStaking} from "./NightStaking.sol";
+
+/// @title NightStaking pool factory
+/// @author NightVault
+/// @notice Deploys NightStaking pools for any ERC7984 token and keeps a registry of them.
+/// @dev Each pool is a minimal clone of one NightStaking implementation, which keeps pool creation
+/// cheap and the factory well below the contract size limit. Creation is permissionless; the
+/// caller becomes the owner and pauser of the new pool.
+contract NightStakingFactory {
+    struct PoolInfo {
+        address pool;
+        address stakingToken;
+        address rewardToken;
+        address creator;
+        uint64 createdAt;
+    }
+
+    /// @notice The NightStaking implementation every pool clones.
+    address public immutable implementation;
+
+    PoolInfo[] private _pools;
+    mapping(address token => uint256[] indexes) private _poolIndexesByToken;
+    /// @notice Whether an address is a pool created by this factory.
+    mapping(address pool => bool created) public isPool;
+
+    /// @notice Emitted when a pool is created.
+    /// @param pool the new pool
+    /// @param stakingToken the token the pool stakes
+    /// @param rewardToken the token the pool pays rewards in
+    /// @param creator the pool's owner
+    /// @param dailyRate the pool's initial daily reward rate, in basis points
+    event PoolCreated(
+        address indexed pool,
+        address indexed stakingToken,
+        address indexed rewardToken,
+        address creator,
+        uint32 dailyRate
+    );
+
+    error InvalidToken(address token);
+
+    /// @notice Deploys the implementation that pools clone.
+    constructor() {
+        implementation = address(new NightStaking());
+    }
+
+    /// @notice Creates a pool owned by the caller.
+    /// @param stakingToken the token the pool stakes
+    /// @param rewardToken the token the pool pays rewards in, which may be the staking token
+    /// @param dailyRate the initial daily reward rate, in basis points of principal
+    /// @return pool the new pool
+    function createPool(IERC7984 stakingToken, IERC7984 rewardToken, uint32 dailyRate) external returns (address pool) {
+        if (address(stakingToken).code.length == 0) {
+            revert InvalidToken(address(stakingToken));
+        }
+        if (address(rewardToken).code.length == 0) {
+            revert InvalidToken(address(rewardToken));
+        }
+
+        pool = Clones.clone(implementation);
+        NightStaking(pool).initialize(stakingToken, rewardToken, dailyRate, msg.sender);
+
+        _poolIndexesByToken[address(stakingToken)].push(_pools.length);
+        _pools.push(
+            PoolInfo({
+                pool: pool,
+                stakingToken: address(stakingToken),
+                rewardToken: address(rewardToken),
+                creator: msg.sender,
+                createdAt: uint64(block.timestamp)
+            })
+        );
+        isPool[pool] = true;
+
+        emit PoolCreated(pool, address(stakingToken), address(rewardToken), msg.sender, dailyRate);
+    }
+
+    /// @notice Number of pools created so far.
+    /// @return The number of pools
+    function poolCount() external view returns (uint256) {
+        return _pools.length;
+    }
+
+    /// @notice A pool by creation order.
+    /// @param index the pool's index, counting from 0
+    /// @return The pool's registry entry
+    function getPool(uint256 index) external view returns (PoolInfo memory) {
+        return _pools[index];
+    }
+
+    /// @notice Every pool, in creation order.
+    /// @return The registry entries of all pools
+    function getPools() external view returns (PoolInfo[] memory) {
+        return _pools;
+    }
+
+    /// @notice The pools that stake `stakingToken`, in creation order.
+    /// @param stakingToken the staking token to look up
+    /// @return pools the registry entries of its pools
+    function getPoolsByToken(address stakingToken) external view returns (PoolInfo[] memory pools) {
+        uint256[] storage indexes = _poolIndexesByToken[stakingToken];
+        pools = new PoolInfo[](indexes.length);
+        for (uint256 i = 0; i < indexes.length; ++i) {
+            pools[i] = _pools[indexes[i]];
+        }
+    }
+}
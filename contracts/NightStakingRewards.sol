@@ -0,0 +1,423 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE, euint64, euint128} from "@fhevm/solidity/lib/FHE.sol";
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+
+/// @title NightStaking reward library
+/// @author NightVault
+/// @notice Reward arithmetic, the epoch emission schedule, the bonus reward stream and the oracle requests
+/// of NightStaking.
+/// @dev Linked as an external library to keep NightStaking below the contract size limit. Its functions
+/// run through delegatecall, so every handle they produce, and every decryption request they make,
+/// belongs to the calling pool. Encrypted products are taken in 128 bits so that scaling a 64-bit
+/// amount cannot overflow.
+library NightStakingRewards {
+    uint128 internal constant REWARD_PER_SHARE_SCALE = 1e18;
+    // How long the oracle has to answer for an epoch's total principal before anyone may ask again.
+    uint64 internal constant REVEAL_TIMEOUT = 1 hours;
+
+    struct RateCheckpoint {
+        uint64 effectiveFrom;
+        uint32 dailyRate;
+    }
+
+    struct Epoch {
+        uint64 startedAt;
+        uint64 budget;
+        // Total principal when the epoch started, as revealed by the decryption oracle.
+        uint64 totalPrincipal;
+        bool finalized;
+        // Reward per unit of principal over this epoch, and summed over all earlier ones, scaled by 1e18.
+        uint128 rewardPerShare;
+        uint128 accumulated;
+    }
+
+    // Epoch ids start at 1 and index `epochs` from 0, so that a zero checkpoint means "before epochs".
+    struct EpochSchedule {
+        uint64 budget;
+        uint64 length;
+        // The current epoch's encrypted total principal and when it was last sent to the oracle.
+        uint64 requestedAt;
+        euint64 pendingPrincipal;
+        uint256 pendingRequestId;
+        Epoch[] epochs;
+    }
+
+    // A second reward token paid at its own daily rates, out of its own reserve.
+    struct RewardStream {
+        IERC7984 token;
+        RateCheckpoint[] rates;
+        euint64 reserve;
+    }
+
+    // A position's share of a RewardStream. A zero `lastAccrued` means the position has not been settled
+    // since the stream started, so it accrues from the first rate checkpoint.
+    struct StreamBalance {
+        euint64 rewards;
+        euint64 remainder;
+        uint64 lastAccrued;
+    }
+
+    /// @notice Applies `dailyRate` from now on and returns the rate it replaces. Changes within the same
+    /// second overwrite each other.
+    /// @param checkpoints the rate history to extend
+    /// @param dailyRate the new daily rate
+    /// @return previousRate the rate that applied until now
+    function setRate(RateCheckpoint[] storage checkpoints, uint32 dailyRate) public returns (uint32 previousRate) {
+        uint64 currentTime = uint64(block.timestamp);
+        if (checkpoints.length > 0) {
+            RateCheckpoint storage latest = checkpoints[checkpoints.length - 1];
+            previousRate = latest.dailyRate;
+            if (latest.effectiveFrom == currentTime) {
+                latest.dailyRate = dailyRate;
+                return previousRate;
+            }
+        }
+        checkpoints.push(RateCheckpoint({effectiveFrom: currentTime, dailyRate: dailyRate}));
+    }
+
+    /// @notice The daily rate that applied at `timestamp`; zero before the first checkpoint.
+    /// @param checkpoints the rate history
+    /// @param timestamp the time to look up
+    /// @return The daily rate at that time
+    function rateAt(RateCheckpoint[] storage checkpoints, uint64 timestamp) public view returns (uint32) {
+        for (uint256 i = checkpoints.length; i > 0; --i) {
+            if (checkpoints[i - 1].effectiveFrom <= timestamp) {
+                return checkpoints[i - 1].dailyRate;
+            }
+        }
+        return 0;
+    }
+
+    // Mirrored by NightStaking so that they show up in its ABI.
+    /// @notice Emitted when an epoch starts and its total principal is sent to the oracle.
+    /// @param epochId the new epoch
+    /// @param requestId the oracle request for its total principal
+    /// @param totalPrincipal the encrypted total principal
+    event EpochStarted(uint256 indexed epochId, uint256 indexed requestId, euint64 totalPrincipal);
+    /// @notice Emitted when the oracle reveals an epoch's total principal.
+    /// @param epochId the priced epoch
+    /// @param totalPrincipal the revealed total principal
+    /// @param rewardPerShare the epoch's reward per unit of principal, scaled by 1e18
+    event EpochFinalized(uint256 indexed epochId, uint64 totalPrincipal, uint128 rewardPerShare);
+    /// @notice Emitted when an unanswered epoch reveal is sent to the oracle again.
+    /// @param epochId the pending epoch
+    /// @param requestId the new oracle request
+    event EpochRevealRetried(uint256 indexed epochId, uint256 indexed requestId);
+
+    error EpochTooSoon(uint64 availableAt);
+    error EpochPending(uint256 epochId);
+    error UnknownEpochRequest(uint256 requestId);
+    error NoPendingEpoch();
+    error EpochRevealTooSoon(uint64 availableAt);
+
+    /// @notice Asks the decryption oracle to reveal `value` through the pool's `callbackSelector`.
+    /// @param value the handle to reveal
+    /// @param callbackSelector the pool function the oracle answers to
+    /// @return requestId the oracle request
+    function requestReveal(euint64 value, bytes4 callbackSelector) public returns (uint256 requestId) {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(value);
+        return FHE.requestDecryption(handles, callbackSelector);
+    }
+
+    /// @notice Verifies the oracle's answer to `requestReveal` and returns the revealed value.
+    /// @param requestId the answered request
+    /// @param cleartexts the ABI-encoded revealed value
+    /// @param decryptionProof the oracle's signatures over `cleartexts`
+    /// @return The revealed value
+    function checkReveal(
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) public returns (uint64) {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        return abi.decode(cleartexts, (uint64));
+    }
+
+    /// @notice Returns `amount * numerator / denominator`, rounded down.
+    /// @param amount the encrypted amount to scale
+    /// @param numerator the scale numerator
+    /// @param denominator the scale denominator
+    /// @return The scaled amount
+    function mulDiv(euint64 amount, uint128 numerator, uint128 denominator) external returns (euint64) {
+        euint128 scaled = FHE.mul(FHE.asEuint128(amount), numerator);
+        return FHE.asEuint64(FHE.div(scaled, denominator));
+    }
+
+    /// @notice Rewards of `principal` from `from` to `to` at the daily rates in `checkpoints`, weighted by
+    /// `boost`: principal * rate-seconds * boost / scale. `carry` is the remainder of the previous accrual
+    /// (possibly uninitialized) and the new remainder is returned, so frequent accruals lose nothing to
+    /// rounding. Time before a rate change keeps earning at the rate that applied back then.
+    /// @param checkpoints the rate history
+    /// @param from the start of the accrual period
+    /// @param to the end of the accrual period
+    /// @param principal the principal earning rewards
+    /// @param boost the weight applied to the rate
+    /// @param scale the divisor of principal * rate-seconds * boost
+    /// @param carry the remainder of the previous accrual
+    /// @return accrued the rewards earned
+    /// @return remainder what was rounded away, to carry into the next accrual
+    function accrueAtRate(
+        RateCheckpoint[] storage checkpoints,
+        uint64 from,
+        uint64 to,
+        euint64 principal,
+        uint32 boost,
+        uint128 scale,
+        euint64 carry
+    ) public returns (euint64 accrued, euint64 remainder) {
+        euint128 scaled = FHE.mul(FHE.asEuint128(principal), _rateSeconds(checkpoints, from, to) * boost);
+        if (FHE.isInitialized(carry)) {
+            scaled = FHE.add(scaled, FHE.asEuint128(carry));
+        }
+        accrued = FHE.asEuint64(FHE.div(scaled, scale));
+        remainder = FHE.asEuint64(FHE.rem(scaled, scale));
+    }
+
+    /// @notice Credits `balance` with what `principal` earned in `stream` since it was last settled, per
+    /// second and weighted by `boost`, and returns its updated rewards.
+    /// @param stream the reward stream
+    /// @param balance the position's share of the stream
+    /// @param principal the position's principal
+    /// @param boost the weight applied to the stream's rate
+    /// @param scale the divisor of principal * rate-seconds * boost
+    /// @return The position's stream rewards
+    function accrueStream(
+        RewardStream storage stream,
+        StreamBalance storage balance,
+        euint64 principal,
+        uint32 boost,
+        uint128 scale
+    ) external returns (euint64) {
+        uint64 currentTime = uint64(block.timestamp);
+        if (FHE.isInitialized(principal) && currentTime > balance.lastAccrued) {
+            (euint64 accrued, euint64 remainder) = accrueAtRate(
+                stream.rates,
+                balance.lastAccrued,
+                currentTime,
+                principal,
+                boost,
+                scale,
+                balance.remainder
+            );
+            balance.rewards = FHE.add(balance.rewards, accrued);
+            balance.remainder = remainder;
+            FHE.allowThis(balance.rewards);
+            FHE.allowThis(remainder);
+        }
+        balance.lastAccrued = currentTime;
+        return balance.rewards;
+    }
+
+    /// @notice Folds `source` into `target`. Both must have been settled at the same time.
+    /// @param target the balance that remains
+    /// @param source the balance merged into it
+    /// @return The target's stream rewards
+    function mergeStream(StreamBalance storage target, StreamBalance storage source) external returns (euint64) {
+        if (FHE.isInitialized(source.rewards)) {
+            target.rewards = FHE.add(target.rewards, source.rewards);
+            target.remainder = FHE.add(target.remainder, source.remainder);
+            FHE.allowThis(target.rewards);
+            FHE.allowThis(target.remainder);
+        }
+        return target.rewards;
+    }
+
+    /// @notice Pulls `amount` of the stream's token from the caller into its reserve and returns what
+    /// actually arrived.
+    /// @param stream the reward stream
+    /// @param amount the amount to pull
+    /// @return transferred the amount that arrived
+    function fundStream(RewardStream storage stream, euint64 amount) external returns (euint64 transferred) {
+        FHE.allowTransient(amount, address(stream.token));
+        transferred = stream.token.confidentialTransferFrom(msg.sender, address(this), amount);
+        stream.reserve = FHE.add(stream.reserve, transferred);
+        FHE.allowThis(stream.reserve);
+    }
+
+    /// @notice Sends `to` as much of `balance` as the reserve covers; the rest stays owed.
+    /// @param stream the reward stream
+    /// @param balance the position's share of the stream
+    /// @param to the recipient
+    /// @return paid the amount sent
+    function payStream(
+        RewardStream storage stream,
+        StreamBalance storage balance,
+        address to
+    ) external returns (euint64 paid) {
+        paid = FHE.min(balance.rewards, stream.reserve);
+        balance.rewards = FHE.sub(balance.rewards, paid);
+        stream.reserve = FHE.sub(stream.reserve, paid);
+        FHE.allowThis(balance.rewards);
+        FHE.allowThis(stream.reserve);
+        FHE.allowThis(paid);
+
+        FHE.allowTransient(paid, address(stream.token));
+        stream.token.confidentialTransfer(to, paid);
+    }
+
+    /// @notice Opens the next epoch with the current budget and asks the decryption oracle for
+    /// `totalPrincipal`, which prices the epoch once the pool passes the answer to `finalizeEpoch`. The
+    /// current epoch must be finalized and have run for the schedule's length.
+    /// @param self the epoch schedule
+    /// @param totalPrincipal the pool's encrypted total principal
+    /// @param callbackSelector the pool function the oracle answers to
+    /// @return epochId the new epoch
+    function startEpoch(
+        EpochSchedule storage self,
+        euint64 totalPrincipal,
+        bytes4 callbackSelector
+    ) external returns (uint256 epochId) {
+        uint128 accumulated;
+        if (self.epochs.length > 0) {
+            Epoch storage previous = self.epochs[self.epochs.length - 1];
+            if (!previous.finalized) {
+                revert EpochPending(self.epochs.length);
+            }
+            uint64 availableAt = previous.startedAt + self.length;
+            if (block.timestamp < availableAt) {
+                revert EpochTooSoon(availableAt);
+            }
+            accumulated = previous.accumulated + previous.rewardPerShare;
+        }
+        self.epochs.push(
+            Epoch({
+                startedAt: uint64(block.timestamp),
+                budget: self.budget,
+                totalPrincipal: 0,
+                finalized: false,
+                rewardPerShare: 0,
+                accumulated: accumulated
+            })
+        );
+        epochId = self.epochs.length;
+
+        self.pendingPrincipal = totalPrincipal;
+        emit EpochStarted(epochId, _requestPrincipal(self, callbackSelector), totalPrincipal);
+    }
+
+    /// @notice Asks the decryption oracle again for the current epoch's total principal once the last request
+    /// has gone unanswered for REVEAL_TIMEOUT, so a lost callback cannot stall the schedule. Answers to earlier
+    /// requests are rejected from then on.
+    /// @param self the epoch schedule
+    /// @param callbackSelector the pool function the oracle answers to
+    /// @return requestId the new oracle request
+    function retryEpochReveal(
+        EpochSchedule storage self,
+        bytes4 callbackSelector
+    ) external returns (uint256 requestId) {
+        uint256 epochId = self.epochs.length;
+        if (epochId == 0 || self.epochs[epochId - 1].finalized) {
+            revert NoPendingEpoch();
+        }
+        uint64 availableAt = self.requestedAt + REVEAL_TIMEOUT;
+        if (block.timestamp < availableAt) {
+            revert EpochRevealTooSoon(availableAt);
+        }
+
+        requestId = _requestPrincipal(self, callbackSelector);
+        emit EpochRevealRetried(epochId, requestId);
+    }
+
+    /// @notice Stores the revealed total principal of the current epoch and its reward per share. An epoch
+    /// that starts with nothing staked pays nothing.
+    /// @param self the epoch schedule
+    /// @param requestId the answered request
+    /// @param cleartexts the ABI-encoded total principal
+    /// @param decryptionProof the oracle's signatures over `cleartexts`
+    function finalizeEpoch(
+        EpochSchedule storage self,
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        uint256 epochId = self.epochs.length;
+        if (epochId == 0 || self.epochs[epochId - 1].finalized || requestId != self.pendingRequestId) {
+            revert UnknownEpochRequest(requestId);
+        }
+
+        Epoch storage epoch = self.epochs[epochId - 1];
+        epoch.totalPrincipal = checkReveal(requestId, cleartexts, decryptionProof);
+        if (epoch.totalPrincipal > 0) {
+            epoch.rewardPerShare = (uint128(epoch.budget) * REWARD_PER_SHARE_SCALE) / epoch.totalPrincipal;
+        }
+        epoch.finalized = true;
+        emit EpochFinalized(epochId, epoch.totalPrincipal, epoch.rewardPerShare);
+    }
+
+    /// @notice Rewards of the epochs that ended since `checkpoint`: `checkpointPrincipal` through the
+    /// checkpointed epoch, then `principal` through every later one. Uninitialized when nothing is due.
+    /// Every ended epoch is finalized, since the next one cannot start before that. A zero checkpoint was
+    /// taken before epochs began, so `principal` has been held since the first one started.
+    /// @param self the epoch schedule
+    /// @param checkpoint the epoch the position was last settled in
+    /// @param checkpointPrincipal the lowest principal the position held through that epoch
+    /// @param principal the position's current principal
+    /// @return earned the rewards due
+    function epochRewards(
+        EpochSchedule storage self,
+        uint256 checkpoint,
+        euint64 checkpointPrincipal,
+        euint64 principal
+    ) external returns (euint64 earned) {
+        uint256 current = self.epochs.length;
+        if (!FHE.isInitialized(principal) || current < 2) {
+            return earned;
+        }
+        if (checkpoint == 0) {
+            checkpoint = 1;
+            checkpointPrincipal = principal;
+        }
+        if (checkpoint >= current) {
+            return earned;
+        }
+
+        Epoch storage settled = self.epochs[checkpoint - 1];
+        uint128 laterEpochs = self.epochs[current - 1].accumulated - settled.accumulated - settled.rewardPerShare;
+        euint128 scaled = FHE.mul(FHE.asEuint128(principal), laterEpochs);
+        // Positions opened during the checkpointed epoch have no principal to show for it.
+        if (FHE.isInitialized(checkpointPrincipal)) {
+            scaled = FHE.add(scaled, FHE.mul(FHE.asEuint128(checkpointPrincipal), settled.rewardPerShare));
+        }
+        earned = FHE.asEuint64(FHE.div(scaled, REWARD_PER_SHARE_SCALE));
+    }
+
+    /// @notice Sends the current epoch's total principal to the oracle.
+    /// @param self the epoch schedule
+    /// @param callbackSelector the pool function the oracle answers to
+    /// @return The oracle request
+    function _requestPrincipal(EpochSchedule storage self, bytes4 callbackSelector) private returns (uint256) {
+        self.pendingRequestId = requestReveal(self.pendingPrincipal, callbackSelector);
+        self.requestedAt = uint64(block.timestamp);
+        return self.pendingRequestId;
+    }
+
+    /// @notice Sum of dailyRate * seconds over [from, to), walking the checkpoints from the latest backwards.
+    /// @param checkpoints the rate history
+    /// @param from the start of the period
+    /// @param to the end of the period
+    /// @return weighted the rate-seconds over the period
+    function _rateSeconds(
+        RateCheckpoint[] storage checkpoints,
+        uint64 from,
+        uint64 to
+    ) private view returns (uint128 weighted) {
+        uint64 segmentEnd = to;
+
+        for (uint256 i = checkpoints.length; i > 0; --i) {
+            RateCheckpoint storage checkpoint = checkpoints[i - 1];
+            uint64 segmentStart = checkpoint.effectiveFrom > from ? checkpoint.effectiveFrom : from;
+
+            if (segmentStart < segmentEnd) {
+                weighted += uint128(checkpoint.dailyRate) * (segmentEnd - segmentStart);
+                segmentEnd = segmentStart;
+            }
+
+            if (checkpoint.effectiveFrom <= from) {
+                break;
+            }
+        }
+    }
+}
@@ -1,23 +1,69 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+const DEFAULT_DAILY_RATE = 100;
+
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute, read, save, getArtifact, getOrNull } = hre.deployments;
 
   const erc7984 = await deploy("ERC7984Test", {
     from: deployer,
     log: true,
   });
 
-  const staking = await deploy("NightStaking", {
+  const erc20 = await deploy("ERC20Test", {
+    from: deployer,
+    log: true,
+  });
+
+  const wrapper = await deploy("ConfidentialWrapper", {
     from: deployer,
-    args: [erc7984.address],
+    args: [erc20.address, "Confidential Test Token", "cTEST"],
     log: true,
   });
 
+  const rewardsLibrary = await deploy("NightStakingRewards", {
+    from: deployer,
+    log: true,
+  });
+
+  const factory = await deploy("NightStakingFactory", {
+    from: deployer,
+    libraries: { NightStakingRewards: rewardsLibrary.address },
+    log: true,
+  });
+
+  // Pools are clones created by the factory; record them as deployments so tasks can find them by name.
+  const { abi } = await getArtifact("NightStaking");
+  async function createPool(name: string, stakingToken: string, rewardToken: string) {
+    const existing = await getOrNull(name);
+    if (existing) {
+      return existing.address;
+    }
+    await execute(
+      "NightStakingFactory",
+      { from: deployer, log: true },
+      "createPool",
+      stakingToken,
+      rewardToken,
+      DEFAULT_DAILY_RATE,
+    );
+    const pools = await read("NightStakingFactory", "getPools");
+    const { pool } = pools[pools.length - 1];
+    await save(name, { address: pool, abi });
+    return pool as string;
+  }
+
+  const staking = await createPool("NightStaking", erc7984.address, erc7984.address);
+  const wrappedStaking = await createPool("NightStakingWrapped", wrapper.address, wrapper.address);
+
   console.log(`ERC7984Test contract: ${erc7984.address}`);
-  console.log(`NightStaking contract: ${staking.address}`);
+  console.log(`ERC20Test contract: ${erc20.address}`);
+  console.log(`ConfidentialWrapper contract: ${wrapper.address}`);
+  console.log(`NightStakingFactory contract: ${factory.address}`);
+  console.log(`NightStaking pool (fTEST): ${staking}`);
+  console.log(`NightStaking pool (cTEST): ${wrappedStaking}`);
 };
 export default func;
 func.id = "deploy_ftest"; // id required to prevent reexecution
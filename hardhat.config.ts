@@ -13,6 +13,26 @@ dotenv.config();
 
 import "./tasks/accounts";
 import "./tasks/FHECounter";
+import "./tasks/ERC7984Test";
+import "./tasks/NightStaking";
+import "./tasks/ConfidentialWrapper";
+import "./tasks/NightStakingFactory";
+import "./tasks/frontend";
+import "./tasks/local";
+
+const SIZE_OPTIMIZED_COMPILER = {
+  version: "0.8.27",
+  settings: {
+    metadata: {
+      bytecodeHash: "none",
+    },
+    optimizer: {
+      enabled: true,
+      runs: 1,
+    },
+    evmVersion: "cancun",
+  },
+};
 
 const INFURA_API_KEY = process.env.INFURA_API_KEY ?? "";
 const PRIVATE_KEY = process.env.PRIVATE_KEY ?? "";
@@ -56,20 +76,30 @@ const config: HardhatUserConfig = {
     tests: "./test",
   },
   solidity: {
-    version: "0.8.27",
-    settings: {
-      metadata: {
-        // Not including the metadata hash
-        // https://github.com/paulrberg/hardhat-template/issues/31
-        bytecodeHash: "none",
-      },
-      // Disable the optimizer when debugging
-      // https://hardhat.org/hardhat-network/#solidity-optimizer-support
-      optimizer: {
-        enabled: true,
-        runs: 800,
+    compilers: [
+      {
+        version: "0.8.27",
+        settings: {
+          metadata: {
+            // Not including the metadata hash
+            // https://github.com/paulrberg/hardhat-template/issues/31
+            bytecodeHash: "none",
+          },
+          // Disable the optimizer when debugging
+          // https://hardhat.org/hardhat-network/#solidity-optimizer-support
+          optimizer: {
+            enabled: true,
+            runs: 800,
+          },
+          evmVersion: "cancun",
+        },
       },
-      evmVersion: "cancun",
+    ],
+    // NightStaking sits close to the 24 KiB code size limit, so it is optimized for size rather than call
+    // cost. The factory embeds its creation code and has to be compiled the same way.
+    overrides: {
+      "contracts/NightStaking.sol": SIZE_OPTIMIZED_COMPILER,
+      "contracts/NightStakingFactory.sol": SIZE_OPTIMIZED_COMPILER,
     },
   },
   typechain: {
@@ -0,0 +1,35 @@
+import { ZeroHash } from "ethers";
+import type { BytesLike } from "ethers";
+
+export type HandleContractPair = { handle: string; contractAddress: string };
+
+export type EncryptedAmount = { handle: BytesLike; inputProof: BytesLike };
+
+/**
+ * What the client needs from an FHEVM instance: encrypting amounts for a contract and
+ * user-decrypting handles in one batch, so a wallet signs at most once per refresh.
+ */
+export interface FheAdapter {
+  encrypt64(contractAddress: string, userAddress: string, value: bigint): Promise<EncryptedAmount>;
+  decrypt(handlePairs: HandleContractPair[]): Promise<Record<string, bigint>>;
+  // Encrypted flags are their own type, so they are decrypted apart from amounts.
+  decryptBool(handle: string, contractAddress: string): Promise<boolean>;
+}
+
+/**
+ * Decrypts every handle in one adapter call and returns a lookup. Unset handles read as zero
+ * without being sent, as do handles the adapter did not return.
+ */
+export async function decryptHandles(fhe: FheAdapter, handlePairs: HandleContractPair[]) {
+  const seen = new Set<string>();
+  const pending = handlePairs.filter(({ handle }) => {
+    if (handle === ZeroHash || seen.has(handle)) {
+      return false;
+    }
+    seen.add(handle);
+    return true;
+  });
+
+  const values = pending.length > 0 ? await fhe.decrypt(pending) : {};
+  return (handle: string) => values[handle] ?? 0n;
+}
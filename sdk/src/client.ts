@@ -0,0 +1,345 @@
+import { AbiCoder, ZeroHash } from "ethers";
+
+import type { IERC7984 } from "../../types/@openzeppelin/confidential-contracts/interfaces/IERC7984";
+import type { ERC7984Test } from "../../types/contracts/ERC7984Test";
+import type { NightStaking } from "../../types/contracts/NightStaking";
+import { decryptHandles } from "./adapter";
+import type { FheAdapter, HandleContractPair } from "./adapter";
+import { SECONDS_PER_DAY } from "./rewards";
+
+export const FLEXIBLE_POSITION = 0n;
+
+// How long authorize() keeps NightStaking an operator of the caller's tokens by default.
+const OPERATOR_DURATION_SECONDS = 365n * SECONDS_PER_DAY;
+
+/** Contracts connected to the account's signer; the faucet is only needed for mint(). */
+export type NightVaultContracts = {
+  pool: NightStaking;
+  stakingToken: IERC7984;
+  faucet?: ERC7984Test;
+};
+
+export type RewardBalance = {
+  token: string;
+  amount: bigint;
+  // Zero until the position first accrues.
+  lastAccrued: bigint;
+};
+
+export type Position = {
+  id: bigint;
+  owner: string;
+  // 0 for the flexible stake, otherwise the position's lock tier.
+  tier: number;
+  unlockTime: bigint;
+  // Until when unstaking from the position is charged the early-unstake penalty; 0 when it is not.
+  penaltyEndsAt: bigint;
+  principal: bigint;
+  // The pool's reward token first, then the bonus token once one is set.
+  rewards: RewardBalance[];
+};
+
+export type PendingWithdrawal = {
+  id: bigint;
+  // The position it was unstaked from.
+  positionId: bigint;
+  amount: bigint;
+  maturity: bigint;
+};
+
+export type Liabilities = {
+  totalPrincipal: bigint;
+  totalRewards: bigint;
+  rewardReserve: bigint;
+};
+
+/** Everything the account holds in the pool and its wallet, decrypted in one request. */
+export type Portfolio = {
+  balance: bigint;
+  autoCompound: boolean;
+  flexible: Position;
+  positions: Position[];
+  withdrawals: PendingWithdrawal[];
+};
+
+// A position's encrypted state, read before the batch of decryptions it joins.
+type PositionHandles = Omit<Position, "principal" | "rewards"> & {
+  principal: string;
+  rewards: { token: string; amount: string; lastAccrued: bigint }[];
+};
+
+type WithdrawalHandles = Omit<PendingWithdrawal, "amount"> & { amount: string };
+
+export type StakeOptions = {
+  // Lock tier of the new position; 0 stakes into the flexible position.
+  tier?: number;
+  // Pull the amount through NightStaking's operator approval instead of a transfer callback.
+  viaOperator?: boolean;
+};
+
+/**
+ * NightStaking for one account. Amounts are encrypted and handles decrypted through `fhe`, so the
+ * same calls run in the browser against the relayer and in Hardhat against the plugin.
+ */
+export class NightVaultClient {
+  readonly pool: NightStaking;
+  readonly stakingToken: IERC7984;
+  readonly faucet?: ERC7984Test;
+  readonly fhe: FheAdapter;
+  readonly account: string;
+
+  constructor(contracts: NightVaultContracts, fhe: FheAdapter, account: string) {
+    this.pool = contracts.pool;
+    this.stakingToken = contracts.stakingToken;
+    this.faucet = contracts.faucet;
+    this.fhe = fhe;
+    this.account = account;
+  }
+
+  mint() {
+    if (!this.faucet) {
+      throw new Error("NightVaultClient has no faucet token to mint from");
+    }
+    return this.faucet.mintFree();
+  }
+
+  async authorize(until?: bigint) {
+    const expiry = until ?? BigInt(Math.floor(Date.now() / 1000)) + OPERATOR_DURATION_SECONDS;
+    return this.stakingToken.setOperator(await this.pool.getAddress(), expiry);
+  }
+
+  async isAuthorized() {
+    return this.stakingToken.isOperator(this.account, await this.pool.getAddress());
+  }
+
+  /**
+   * Stakes `amount`. By default the token calls NightStaking back on transfer, so no operator
+   * approval is needed; the callback data selects the lock tier.
+   */
+  async stake(amount: bigint, { tier = 0, viaOperator = false }: StakeOptions = {}) {
+    const poolAddress = await this.pool.getAddress();
+
+    if (viaOperator) {
+      const encrypted = await this.fhe.encrypt64(poolAddress, this.account, amount);
+      return tier === 0
+        ? this.pool.stake(encrypted.handle, encrypted.inputProof)
+        : this.pool.stakeLocked(tier, encrypted.handle, encrypted.inputProof);
+    }
+
+    const encrypted = await this.fhe.encrypt64(await this.stakingToken.getAddress(), this.account, amount);
+    const data = tier === 0 ? "0x" : AbiCoder.defaultAbiCoder().encode(["uint8"], [tier]);
+    return this.stakingToken["confidentialTransferAndCall(address,bytes32,bytes,bytes)"](
+      poolAddress,
+      encrypted.handle,
+      encrypted.inputProof,
+      data,
+    );
+  }
+
+  /** Unstakes `amount` from the flexible stake, or from a locked position once it has unlocked. */
+  async unstake(amount: bigint, positionId: bigint = FLEXIBLE_POSITION) {
+    const encrypted = await this.fhe.encrypt64(await this.pool.getAddress(), this.account, amount);
+    return positionId === FLEXIBLE_POSITION
+      ? this.pool.unstake(encrypted.handle, encrypted.inputProof)
+      : this.pool.unstakePosition(positionId, encrypted.handle, encrypted.inputProof);
+  }
+
+  claim(positionId: bigint = FLEXIBLE_POSITION) {
+    return positionId === FLEXIBLE_POSITION ? this.pool.claimRewards() : this.pool.claimPositionRewards(positionId);
+  }
+
+  claimBonus(positionId: bigint = FLEXIBLE_POSITION) {
+    return this.pool.claimBonusRewards(positionId);
+  }
+
+  compound(positionId: bigint = FLEXIBLE_POSITION) {
+    return positionId === FLEXIBLE_POSITION ? this.pool.compound() : this.pool.compoundPosition(positionId);
+  }
+
+  setAutoCompound(enabled: boolean) {
+    return this.pool.setAutoCompound(enabled);
+  }
+
+  /** Releases every matured withdrawal to the wallet. */
+  withdraw() {
+    return this.pool.withdraw();
+  }
+
+  cancelWithdrawal(withdrawalId: bigint) {
+    return this.pool.cancelWithdrawal(withdrawalId);
+  }
+
+  /** Returns principal from every position and withdrawal while the pool is paused, forfeiting rewards. */
+  emergencyWithdraw() {
+    return this.pool.emergencyWithdraw();
+  }
+
+  /**
+   * Hands a position to `to`. The flexible stake always merges into the recipient's; a locked
+   * position becomes a new one of theirs unless `targetPositionId` names one to merge into.
+   */
+  movePosition(positionId: bigint, to: string, targetPositionId?: bigint) {
+    return targetPositionId === undefined
+      ? this.pool.transferPosition(positionId, to)
+      : this.pool.mergePosition(positionId, to, targetPositionId);
+  }
+
+  grantAuditor(auditor: string) {
+    return this.pool.grantAuditor(auditor);
+  }
+
+  revokeAuditor(auditor: string) {
+    return this.pool.revokeAuditor(auditor);
+  }
+
+  // Both are settled by the decryption oracle in a later transaction.
+  requestTvlReveal() {
+    return this.pool.requestTvlReveal();
+  }
+
+  startEpoch() {
+    return this.pool.startEpoch();
+  }
+
+  /**
+   * Whether the account's last claim was paid in full. Claims pay what the reward reserve holds, so
+   * an underfunded reserve caps the payout and leaves the rest owed for a later claim.
+   */
+  async lastClaimResult() {
+    const handle = await this.pool.getLastClaimResult(this.account);
+    return handle === ZeroHash || this.fhe.decryptBool(handle, await this.pool.getAddress());
+  }
+
+  // Confidential transfers move zero instead of reverting, so read back what the last stake or unstake moved.
+  async lastStakeResult() {
+    return this.decryptPoolHandle(await this.pool.getLastStakeResult(this.account));
+  }
+
+  async lastUnstakeResult() {
+    return this.decryptPoolHandle(await this.pool.getLastUnstakeResult(this.account));
+  }
+
+  async getBalance(account: string = this.account) {
+    const handle = await this.stakingToken.confidentialBalanceOf(account);
+    const decrypted = await this.decrypt([{ handle, contractAddress: await this.stakingToken.getAddress() }]);
+    return decrypted(handle);
+  }
+
+  /**
+   * Decrypts a position with every reward it has settled. Another account's position can be read
+   * by one of its auditors.
+   */
+  async getPosition(positionId: bigint = FLEXIBLE_POSITION, account: string = this.account): Promise<Position> {
+    const handles = await this.readPosition(positionId, account);
+    const decrypted = await this.decrypt(await this.poolHandlePairs(positionHandleList(handles)));
+    return decryptPosition(handles, decrypted);
+  }
+
+  /** Decrypts every locked position of `account`, oldest first. */
+  async getPositions(account: string = this.account): Promise<Position[]> {
+    const handles = await Promise.all(
+      (await this.pool.getPositionIds(account)).map((positionId) => this.readPosition(positionId, account)),
+    );
+    const decrypted = await this.decrypt(await this.poolHandlePairs(handles.flatMap(positionHandleList)));
+    return handles.map((position) => decryptPosition(position, decrypted));
+  }
+
+  async getPendingWithdrawals(account: string = this.account): Promise<PendingWithdrawal[]> {
+    const handles = await this.readWithdrawals(account);
+    const decrypted = await this.decrypt(await this.poolHandlePairs(handles.map(({ amount }) => amount)));
+    return handles.map((withdrawal) => ({ ...withdrawal, amount: decrypted(withdrawal.amount) }));
+  }
+
+  /** Decrypts the pool's totals, which only its owner can read. */
+  async getLiabilities(): Promise<Liabilities> {
+    const [totalPrincipal, totalRewards, rewardReserve] = await this.pool.getLiabilities();
+    const decrypted = await this.decrypt(await this.poolHandlePairs([totalPrincipal, totalRewards, rewardReserve]));
+    return {
+      totalPrincipal: decrypted(totalPrincipal),
+      totalRewards: decrypted(totalRewards),
+      rewardReserve: decrypted(rewardReserve),
+    };
+  }
+
+  /** Reads the wallet balance and every position and withdrawal of the account in a single decryption. */
+  async getPortfolio(): Promise<Portfolio> {
+    const [balance, autoCompound, flexible, positions, withdrawals] = await Promise.all([
+      this.stakingToken.confidentialBalanceOf(this.account),
+      this.pool.isAutoCompounding(this.account),
+      this.readPosition(FLEXIBLE_POSITION, this.account),
+      this.pool
+        .getPositionIds(this.account)
+        .then((positionIds) =>
+          Promise.all(positionIds.map((positionId) => this.readPosition(positionId, this.account))),
+        ),
+      this.readWithdrawals(this.account),
+    ]);
+
+    const decrypted = await this.decrypt([
+      { handle: balance, contractAddress: await this.stakingToken.getAddress() },
+      ...(await this.poolHandlePairs([
+        ...[flexible, ...positions].flatMap(positionHandleList),
+        ...withdrawals.map(({ amount }) => amount),
+      ])),
+    ]);
+    return {
+      balance: decrypted(balance),
+      autoCompound,
+      flexible: decryptPosition(flexible, decrypted),
+      positions: positions.map((position) => decryptPosition(position, decrypted)),
+      withdrawals: withdrawals.map((withdrawal) => ({ ...withdrawal, amount: decrypted(withdrawal.amount) })),
+    };
+  }
+
+  decrypt(handlePairs: HandleContractPair[]) {
+    return decryptHandles(this.fhe, handlePairs);
+  }
+
+  private async readPosition(positionId: bigint, account: string): Promise<PositionHandles> {
+    const [[principal, rewards], locked, penaltyEndsAt] = await Promise.all([
+      this.pool.getStakeDetails(account, positionId),
+      positionId === FLEXIBLE_POSITION ? null : this.pool.getPosition(positionId),
+      this.pool.earlyUnstakePenaltyEndsAt(account, positionId),
+    ]);
+    return {
+      id: positionId,
+      owner: account,
+      tier: locked ? Number(locked.tier) : 0,
+      unlockTime: locked ? locked.unlockTime : 0n,
+      penaltyEndsAt,
+      principal,
+      rewards: rewards.map(({ token, amount, lastAccrued }) => ({ token, amount, lastAccrued })),
+    };
+  }
+
+  private async readWithdrawals(account: string): Promise<WithdrawalHandles[]> {
+    return Promise.all(
+      (await this.pool.getPendingWithdrawalIds(account)).map(async (withdrawalId) => {
+        const { positionId, amount, maturity } = await this.pool.getPendingWithdrawal(withdrawalId);
+        return { id: withdrawalId, positionId, amount, maturity };
+      }),
+    );
+  }
+
+  private async poolHandlePairs(handles: string[]) {
+    const contractAddress = await this.pool.getAddress();
+    return handles.map((handle) => ({ handle, contractAddress }));
+  }
+
+  private async decryptPoolHandle(handle: string) {
+    const decrypted = await this.decrypt(await this.poolHandlePairs([handle]));
+    return decrypted(handle);
+  }
+}
+
+function positionHandleList({ principal, rewards }: PositionHandles) {
+  return [principal, ...rewards.map(({ amount }) => amount)];
+}
+
+function decryptPosition(handles: PositionHandles, decrypted: (handle: string) => bigint): Position {
+  return {
+    ...handles,
+    principal: decrypted(handles.principal),
+    rewards: handles.rewards.map((reward) => ({ ...reward, amount: decrypted(reward.amount) })),
+  };
+}
@@ -0,0 +1,31 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import type { HardhatFhevmRuntimeEnvironment } from "@fhevm/hardhat-plugin";
+import type { Signer } from "ethers";
+
+import type { EncryptedAmount, FheAdapter, HandleContractPair } from "./adapter";
+
+/**
+ * Adapts the Hardhat `fhevm` plugin for tasks and tests. Decryptions are made as `signer`, which
+ * must be the account the handles were granted to, or one of its auditors.
+ */
+export function createHardhatAdapter(fhevm: HardhatFhevmRuntimeEnvironment, signer: Signer): FheAdapter {
+  return {
+    async encrypt64(contractAddress: string, userAddress: string, value: bigint): Promise<EncryptedAmount> {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, userAddress).add64(value).encrypt();
+      return { handle: encrypted.handles[0], inputProof: encrypted.inputProof };
+    },
+
+    async decrypt(handlePairs: HandleContractPair[]) {
+      // One at a time: the mock coprocessor replays its event log per request and rejects overlapping reads.
+      const decrypted: Record<string, bigint> = {};
+      for (const { handle, contractAddress } of handlePairs) {
+        decrypted[handle] = await fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer);
+      }
+      return decrypted;
+    },
+
+    decryptBool(handle: string, contractAddress: string) {
+      return fhevm.userDecryptEbool(handle, contractAddress, signer);
+    },
+  };
+}
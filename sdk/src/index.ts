@@ -0,0 +1,24 @@
+// The Hardhat adapter lives in "@nightvault/sdk/hardhat" so browser bundles never pull in the plugin.
+
+export { decryptHandles } from "./adapter";
+export type { EncryptedAmount, FheAdapter, HandleContractPair } from "./adapter";
+export { FLEXIBLE_POSITION, NightVaultClient } from "./client";
+export type {
+  Liabilities,
+  NightVaultContracts,
+  PendingWithdrawal,
+  Portfolio,
+  Position,
+  RewardBalance,
+  StakeOptions,
+} from "./client";
+export { createRelayerAdapter } from "./relayer";
+export type { RelayerDecrypt, RelayerInstance } from "./relayer";
+export { SECONDS_PER_DAY, projectGrowth, projectRewards } from "./rewards";
+
+export type { IERC7984 } from "../../types/@openzeppelin/confidential-contracts/interfaces/IERC7984";
+export type { ERC7984Test } from "../../types/contracts/ERC7984Test";
+export type { NightStaking } from "../../types/contracts/NightStaking";
+export { IERC7984__factory } from "../../types/factories/@openzeppelin/confidential-contracts/interfaces/IERC7984__factory";
+export { ERC7984Test__factory } from "../../types/factories/contracts/ERC7984Test__factory";
+export { NightStaking__factory } from "../../types/factories/contracts/NightStaking__factory";
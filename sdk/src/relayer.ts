@@ -0,0 +1,91 @@
+import type { Signer, TypedDataDomain, TypedDataField } from "ethers";
+
+import type { EncryptedAmount, FheAdapter, HandleContractPair } from "./adapter";
+
+// The parts of a relayer SDK instance the adapter uses; the mock instance from @fhevm/mock-utils has them too.
+export interface RelayerInstance {
+  createEncryptedInput(
+    contractAddress: string,
+    userAddress: string,
+  ): { add64(value: bigint): unknown; encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> };
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: number,
+    durationDays: number,
+  ): {
+    domain: TypedDataDomain;
+    types: Record<string, TypedDataField[]>;
+    message: Record<string, unknown>;
+  };
+  userDecrypt(
+    handles: HandleContractPair[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: number,
+    durationDays: number,
+  ): Promise<Record<string, unknown>>;
+}
+
+export type RelayerDecrypt = (handlePairs: HandleContractPair[]) => Promise<Record<string, unknown>>;
+
+// A one-off request only has to outlive the call it is signed for.
+const REQUEST_DURATION_DAYS = 1;
+
+/**
+ * Adapts a browser relayer instance. Without `decrypt`, every decryption asks the signer for a
+ * fresh EIP-712 signature; pass one to reuse a longer-lived decryption session instead.
+ */
+export function createRelayerAdapter(instance: RelayerInstance, signer: Signer, decrypt?: RelayerDecrypt): FheAdapter {
+  const signAndDecrypt: RelayerDecrypt = async (handlePairs) => {
+    const userAddress = await signer.getAddress();
+    const contractAddresses = [...new Set(handlePairs.map(({ contractAddress }) => contractAddress))];
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    const keypair = instance.generateKeypair();
+    const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, REQUEST_DURATION_DAYS);
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+
+    return instance.userDecrypt(
+      handlePairs,
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace("0x", ""),
+      contractAddresses,
+      userAddress,
+      startTimestamp,
+      REQUEST_DURATION_DAYS,
+    );
+  };
+
+  return {
+    async encrypt64(contractAddress: string, userAddress: string, value: bigint): Promise<EncryptedAmount> {
+      const buffer = instance.createEncryptedInput(contractAddress, userAddress);
+      buffer.add64(value);
+      const encrypted = await buffer.encrypt();
+      return { handle: encrypted.handles[0], inputProof: encrypted.inputProof };
+    },
+
+    async decrypt(handlePairs: HandleContractPair[]) {
+      const values = await (decrypt ?? signAndDecrypt)(handlePairs);
+      const decrypted: Record<string, bigint> = {};
+      for (const [handle, value] of Object.entries(values)) {
+        decrypted[handle] = BigInt(value as bigint | string);
+      }
+      return decrypted;
+    },
+
+    async decryptBool(handle: string, contractAddress: string) {
+      const values = await (decrypt ?? signAndDecrypt)([{ handle, contractAddress }]);
+      return values[handle] === true;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+export const SECONDS_PER_DAY = 86_400n;
+
+/**
+ * Rewards `principal` has earned by `now`, on top of the `rewards` NightStaking last settled at
+ * `lastAccrued`. Mirrors the contract's fixed-rate accrual, so it does not apply while epochs run.
+ *
+ * This is an estimate for the flexible stake. It is exact only when:
+ * - `dailyRate` has applied since `lastAccrued`; time before a later rate checkpoint earns at the old rate;
+ * - there is no lock-tier boost; a locked position earns boost / `BOOST_DIVISOR` times the projected accrual;
+ * - nothing is carried over. The contract carries an encrypted rounding remainder between accruals that
+ *   only it can read, so a claim can pay one base unit more than projected.
+ */
+export function projectRewards(
+  principal: bigint,
+  rewards: bigint,
+  lastAccrued: number | null,
+  now: number,
+  dailyRate: bigint | null,
+  rateDivisor: bigint | null,
+  perSecond: boolean,
+): bigint {
+  if (!lastAccrued || now <= lastAccrued || dailyRate === null || !rateDivisor) {
+    return rewards;
+  }
+
+  const elapsedSeconds = BigInt(now - lastAccrued);
+  // Whole-day mode only credits completed days; per-second mode credits every elapsed second.
+  const creditedSeconds = perSecond ? elapsedSeconds : (elapsedSeconds / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+  return rewards + (principal * creditedSeconds * dailyRate) / (rateDivisor * SECONDS_PER_DAY);
+}
+
+// Simple growth keeps rewards aside; compounded growth assumes rewards are restaked once a day.
+export function projectGrowth(principal: bigint, dailyRate: bigint, rateDivisor: bigint, days: number) {
+  const simple = principal + (principal * dailyRate * BigInt(days)) / rateDivisor;
+  let compounded = principal;
+  for (let day = 0; day < days; day++) {
+    compounded += (compounded * dailyRate) / rateDivisor;
+  }
+  return { simple, compounded };
+}
@@ -0,0 +1,172 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Wrap an ERC20 into a confidential token (--network localhost | sepolia)
+ * ================================================================================
+ *
+ * 1. Deploy ERC20Test and ConfidentialWrapper alongside NightStaking
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 2. Mint the public test token, wrap it, and unwrap part of it again.
+ *    Unwrapping burns the encrypted amount first and releases the ERC20 once the
+ *    decryption oracle has reported how much was burnt.
+ *
+ *   npx hardhat --network localhost task:mint-erc20
+ *   npx hardhat --network localhost task:wrap --amount 40
+ *   npx hardhat --network localhost task:decrypt-wrapped
+ *   npx hardhat --network localhost task:unwrap --amount 15
+ *
+ */
+
+async function resolveWrapper(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, deployments } = hre;
+
+  const ConfidentialWrapperDeployment = address ? { address } : await deployments.get("ConfidentialWrapper");
+  console.log(`ConfidentialWrapper: ${ConfidentialWrapperDeployment.address}`);
+
+  const wrapperContract = await ethers.getContractAt("ConfidentialWrapper", ConfidentialWrapperDeployment.address);
+  const underlyingContract = await ethers.getContractAt("ERC20Test", await wrapperContract.underlying());
+
+  return { wrapperAddress: ConfidentialWrapperDeployment.address, wrapperContract, underlyingContract };
+}
+
+function parseAmount(hre: HardhatRuntimeEnvironment, amount: string, decimals: bigint): bigint {
+  let value: bigint;
+  try {
+    value = hre.ethers.parseUnits(amount, decimals);
+  } catch {
+    throw new Error(`Argument --amount is not a valid token amount`);
+  }
+  if (value <= 0n) {
+    throw new Error(`Argument --amount must be greater than zero`);
+  }
+  return value;
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:mint-erc20
+ *   - npx hardhat --network sepolia task:mint-erc20
+ */
+task("task:mint-erc20", "Calls the mintFree() function of ERC20Test Contract")
+  .addOptionalParam("address", "Optionally specify the ConfidentialWrapper contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { underlyingContract } = await resolveWrapper(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await underlyingContract.connect(signers[0]).mintFree();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const balance = await underlyingContract.balanceOf(signers[0].address);
+    console.log(`ERC20Test balance: ${ethers.formatUnits(balance, await underlyingContract.decimals())}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:wrap --amount 40
+ *   - npx hardhat --network sepolia task:wrap --amount 40
+ */
+task("task:wrap", "Approves and calls the wrap() function of ConfidentialWrapper Contract")
+  .addOptionalParam("address", "Optionally specify the ConfidentialWrapper contract address")
+  .addParam("amount", "The amount of the underlying ERC20 to wrap")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { wrapperAddress, wrapperContract, underlyingContract } = await resolveWrapper(hre, taskArguments.address);
+    const amount = parseAmount(hre, taskArguments.amount, await underlyingContract.decimals());
+
+    const signers = await ethers.getSigners();
+
+    const allowance = await underlyingContract.allowance(signers[0].address, wrapperAddress);
+    if (allowance < amount) {
+      const approveTx = await underlyingContract.connect(signers[0]).approve(wrapperAddress, amount);
+      console.log(`Wait for approve tx:${approveTx.hash}...`);
+      await approveTx.wait();
+    }
+
+    const tx = await wrapperContract.connect(signers[0]).wrap(signers[0].address, amount);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`ConfidentialWrapper wrap(${taskArguments.amount}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:unwrap --amount 15
+ *   - npx hardhat --network sepolia task:unwrap --amount 15 --to <address>
+ */
+task("task:unwrap", "Calls the unwrap() function of ConfidentialWrapper Contract")
+  .addOptionalParam("address", "Optionally specify the ConfidentialWrapper contract address")
+  .addOptionalParam("to", "Recipient of the underlying ERC20 (defaults to the caller)")
+  .addParam("amount", "The amount of wrapped tokens to unwrap")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { wrapperAddress, wrapperContract, underlyingContract } = await resolveWrapper(hre, taskArguments.address);
+    const amount = parseAmount(hre, taskArguments.amount, await wrapperContract.decimals());
+
+    const signers = await ethers.getSigners();
+    const to = taskArguments.to ?? signers[0].address;
+
+    const encryptedValue = await fhevm.createEncryptedInput(wrapperAddress, signers[0].address).add64(amount).encrypt();
+
+    const unwrap = wrapperContract.connect(signers[0])["unwrap(address,address,bytes32,bytes)"];
+    const tx = await unwrap(signers[0].address, to, encryptedValue.handles[0], encryptedValue.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (fhevm.isMock) {
+      // No relayer watches the local chain, so fulfil the request with the mock oracle.
+      await fhevm.awaitDecryptionOracle();
+      const balance = await underlyingContract.balanceOf(to);
+      console.log(`ERC20Test balance of ${to}: ${ethers.formatUnits(balance, await underlyingContract.decimals())}`);
+    } else {
+      console.log("Unwrap requested; the ERC20 is released once the decryption oracle has answered.");
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:decrypt-wrapped
+ *   - npx hardhat --network sepolia task:decrypt-wrapped
+ */
+task("task:decrypt-wrapped", "Calls the confidentialBalanceOf() function of ConfidentialWrapper Contract")
+  .addOptionalParam("address", "Optionally specify the ConfidentialWrapper contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { wrapperAddress, wrapperContract } = await resolveWrapper(hre, taskArguments.address);
+    const decimals = await wrapperContract.decimals();
+    const symbol = await wrapperContract.symbol();
+
+    const signers = await ethers.getSigners();
+
+    const encryptedBalance = await wrapperContract.confidentialBalanceOf(signers[0].address);
+    if (encryptedBalance === ethers.ZeroHash) {
+      console.log(`encrypted balance: ${encryptedBalance}`);
+      console.log("clear balance    : 0");
+      return;
+    }
+
+    const clearBalance = await fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, wrapperAddress, signers[0]);
+    console.log(`Encrypted balance: ${encryptedBalance}`);
+    console.log(`Clear balance    : ${ethers.formatUnits(clearBalance, decimals)} ${symbol}`);
+  });
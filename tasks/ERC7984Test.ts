@@ -0,0 +1,182 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Mint and authorize fTEST (--network localhost | sepolia)
+ * =================================================================
+ *
+ * 1. Deploy ERC7984Test and NightStaking
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 2. Mint the starter balance and let NightStaking move it
+ *
+ *   npx hardhat --network localhost task:mint
+ *   npx hardhat --network localhost task:set-operator
+ *   npx hardhat --network localhost task:decrypt-balance
+ *
+ * 3. The faucet allows one mint per day per address, up to 1000 fTEST in total.
+ *    As the deployer, change how much each mint hands out
+ *
+ *   npx hardhat --network localhost task:set-mint-amount --amount 50
+ *
+ */
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:mint
+ *   - npx hardhat --network sepolia task:mint
+ */
+task("task:mint", "Calls the mintFree() function of ERC7984Test Contract")
+  .addOptionalParam("address", "Optionally specify the ERC7984Test contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const ERC7984TestDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ERC7984Test");
+    console.log(`ERC7984Test: ${ERC7984TestDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const tokenContract = await ethers.getContractAt("ERC7984Test", ERC7984TestDeployment.address);
+
+    const nextMintAt = await tokenContract.nextMintAt(signers[0].address);
+    const latestBlock = await ethers.provider.getBlock("latest");
+    if (nextMintAt > BigInt(latestBlock!.timestamp)) {
+      throw new Error(`The faucet cooldown ends at ${new Date(Number(nextMintAt) * 1000).toISOString()}`);
+    }
+    const amount = await tokenContract.mintAllowance(signers[0].address);
+    if (amount === 0n) {
+      throw new Error(`This address has reached the faucet's lifetime cap`);
+    }
+
+    const tx = await tokenContract.connect(signers[0]).mintFree();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const decimals = await tokenContract.decimals();
+    console.log(`ERC7984Test mintFree() minted ${ethers.formatUnits(amount, decimals)} fTEST!`);
+    console.log(
+      `Next mint possible at ${new Date(Number(await tokenContract.nextMintAt(signers[0].address)) * 1000).toISOString()}`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-mint-amount --amount 50
+ *   - npx hardhat --network sepolia task:set-mint-amount --amount 100
+ */
+task("task:set-mint-amount", "Calls the setMintAmount() function of ERC7984Test Contract")
+  .addOptionalParam("address", "Optionally specify the ERC7984Test contract address")
+  .addParam("amount", "Amount of fTEST each faucet mint hands out")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const ERC7984TestDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ERC7984Test");
+    console.log(`ERC7984Test: ${ERC7984TestDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const tokenContract = await ethers.getContractAt("ERC7984Test", ERC7984TestDeployment.address);
+
+    let amount: bigint;
+    try {
+      amount = ethers.parseUnits(taskArguments.amount, await tokenContract.decimals());
+    } catch {
+      throw new Error(`Argument --amount is not a valid token amount`);
+    }
+
+    const tx = await tokenContract.connect(signers[0]).setMintAmount(amount);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`ERC7984Test setMintAmount(${taskArguments.amount}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-operator
+ *   - npx hardhat --network sepolia task:set-operator --days 30
+ */
+task("task:set-operator", "Authorizes NightStaking as an operator of the caller's fTEST")
+  .addOptionalParam("address", "Optionally specify the ERC7984Test contract address")
+  .addOptionalParam("operator", "Optionally specify the operator address (defaults to NightStaking)")
+  .addOptionalParam("days", "Number of days the operator grant stays valid", "365")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const days = parseInt(taskArguments.days);
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new Error(`Argument --days is not a positive integer`);
+    }
+
+    const ERC7984TestDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ERC7984Test");
+    console.log(`ERC7984Test: ${ERC7984TestDeployment.address}`);
+
+    const operator = taskArguments.operator ?? (await deployments.get("NightStaking")).address;
+    console.log(`Operator: ${operator}`);
+
+    const signers = await ethers.getSigners();
+
+    const tokenContract = await ethers.getContractAt("ERC7984Test", ERC7984TestDeployment.address);
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const until = BigInt(latestBlock!.timestamp) + BigInt(days) * 86_400n;
+
+    const tx = await tokenContract.connect(signers[0]).setOperator(operator, until);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`ERC7984Test setOperator(${operator}, ${until}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:decrypt-balance
+ *   - npx hardhat --network sepolia task:decrypt-balance
+ */
+task("task:decrypt-balance", "Calls the confidentialBalanceOf() function of ERC7984Test Contract")
+  .addOptionalParam("address", "Optionally specify the ERC7984Test contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const ERC7984TestDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ERC7984Test");
+    console.log(`ERC7984Test: ${ERC7984TestDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const tokenContract = await ethers.getContractAt("ERC7984Test", ERC7984TestDeployment.address);
+    const decimals = await tokenContract.decimals();
+
+    const encryptedBalance = await tokenContract.confidentialBalanceOf(signers[0].address);
+    if (encryptedBalance === ethers.ZeroHash) {
+      console.log(`encrypted balance: ${encryptedBalance}`);
+      console.log("clear balance    : 0");
+      return;
+    }
+
+    const clearBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      encryptedBalance,
+      ERC7984TestDeployment.address,
+      signers[0],
+    );
+    console.log(`Encrypted balance: ${encryptedBalance}`);
+    console.log(`Clear balance    : ${ethers.formatUnits(clearBalance, decimals)} fTEST`);
+  });
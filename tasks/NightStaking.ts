@@ -0,0 +1,1060 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { NightVaultClient } from "../sdk/src";
+import { createHardhatAdapter } from "../sdk/src/hardhat";
+
+/**
+ * Tutorial: Stake fTEST (--network localhost | sepolia)
+ * =====================================================
+ *
+ * 1. Mint fTEST (see tasks/ERC7984Test.ts)
+ *
+ *   npx hardhat --network localhost task:mint
+ *
+ * 2. Interact with the NightStaking contract. Staking sends the tokens with
+ *    confidentialTransferAndCall; pass --use-operator to go through stake() instead,
+ *    which first needs task:set-operator.
+ *
+ *   npx hardhat --network localhost task:stake --amount 50
+ *   npx hardhat --network localhost task:decrypt-stake
+ *   npx hardhat --network localhost task:unstake --amount 20
+ *   npx hardhat --network localhost task:stake-locked --days 30 --amount 10
+ *   npx hardhat --network localhost task:positions
+ *   npx hardhat --network localhost task:withdrawals
+ *   npx hardhat --network localhost task:withdraw
+ *   npx hardhat --network localhost task:claim
+ *   npx hardhat --network localhost task:claim-bonus
+ *   npx hardhat --network localhost task:compound
+ *   npx hardhat --network localhost task:set-auto-compound --enabled true
+ *   npx hardhat --network localhost task:decrypt-balance
+ *
+ *   Stake on behalf of another account, which then owns the stake (needs task:set-operator)
+ *
+ *   npx hardhat --network localhost task:stake-for --beneficiary <address> --amount 25
+ *
+ *   Share the stake with an auditor, who can then decrypt it with --account
+ *
+ *   npx hardhat --network localhost task:grant-auditor --auditor <address>
+ *   npx hardhat --network localhost task:decrypt-stake --account <address>
+ *
+ * 3. As the deployer, top up the reward reserve that backs claims
+ *
+ *   npx hardhat --network localhost task:fund-rewards --amount 10
+ *   npx hardhat --network localhost task:set-reward-rate --rate 150
+ *   npx hardhat --network localhost task:reward-rates
+ *   npx hardhat --network localhost task:set-accrual-mode --mode per-second
+ *   npx hardhat --network localhost task:set-unbonding-period --days 3
+ *   npx hardhat --network localhost task:set-early-unstake-penalty --rate 500 --days 7
+ *   npx hardhat --network localhost task:set-epoch-emission --amount 7 --hours 24
+ *   npx hardhat --network localhost task:set-bonus-rewards --token <address> --rate 50
+ *   npx hardhat --network localhost task:fund-bonus-rewards --amount 10
+ *
+ * 4. In an emergency, pause NightStaking; stakers can then only withdraw principal
+ *
+ *   npx hardhat --network localhost task:pause
+ *   npx hardhat --network localhost task:emergency-withdraw
+ *   npx hardhat --network localhost task:pause --unpause
+ *
+ * 5. Anyone can publish the protocol TVL (at most once per reveal interval)
+ *
+ *   npx hardhat --network localhost task:reveal-tvl
+ *   npx hardhat --network localhost task:tvl
+ *
+ * 6. With epoch emission enabled, anyone can start the next epoch once the current one has ended
+ *
+ *   npx hardhat --network localhost task:start-epoch
+ *   npx hardhat --network localhost task:epochs
+ *
+ *   If the oracle has not priced the current epoch within an hour, anyone can ask again
+ *
+ *   npx hardhat --network localhost task:retry-epoch-reveal
+ *
+ */
+
+async function resolveStaking(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, deployments } = hre;
+
+  const NightStakingDeployment = address ? { address } : await deployments.get("NightStaking");
+  console.log(`NightStaking: ${NightStakingDeployment.address}`);
+
+  const stakingContract = await ethers.getContractAt("NightStaking", NightStakingDeployment.address);
+  const tokenContract = await ethers.getContractAt("ERC7984Test", await stakingContract.stakingToken());
+
+  return { stakingAddress: NightStakingDeployment.address, stakingContract, tokenContract };
+}
+
+function parseAmount(hre: HardhatRuntimeEnvironment, amount: string, decimals: bigint): bigint {
+  let value: bigint;
+  try {
+    value = hre.ethers.parseUnits(amount, decimals);
+  } catch {
+    throw new Error(`Argument --amount is not a valid token amount`);
+  }
+  if (value <= 0n) {
+    throw new Error(`Argument --amount must be greater than zero`);
+  }
+  return value;
+}
+
+// A NightVaultClient for the first signer, encrypting and decrypting through the fhevm plugin.
+async function resolveClient(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, fhevm } = hre;
+
+  const resolved = await resolveStaking(hre, address);
+  const signers = await ethers.getSigners();
+
+  const client = new NightVaultClient(
+    { pool: resolved.stakingContract.connect(signers[0]), stakingToken: resolved.tokenContract.connect(signers[0]) },
+    createHardhatAdapter(fhevm, signers[0]),
+    signers[0].address,
+  );
+  return { ...resolved, client };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:stake --amount 50
+ *   - npx hardhat --network sepolia task:stake --amount 50 --use-operator
+ */
+task("task:stake", "Stakes fTEST in NightStaking with a single confidentialTransferAndCall")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("amount", "The amount of fTEST to stake (e.g. 25.5)")
+  .addFlag("useOperator", "Call stake() instead, which requires NightStaking to be an operator")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { client, tokenContract } = await resolveClient(hre, taskArguments.address);
+    const amount = parseAmount(hre, taskArguments.amount, await tokenContract.decimals());
+
+    const tx = await client.stake(amount, { viaOperator: taskArguments.useOperator });
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const moved = await client.lastStakeResult();
+    console.log(`NightStaking stake(${taskArguments.amount}) succeeded!`);
+    console.log(`Staked amount   : ${ethers.formatUnits(moved, await tokenContract.decimals())} fTEST`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:stake-for --beneficiary 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --amount 50
+ *   - npx hardhat --network sepolia task:stake-for --beneficiary 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --amount 50
+ */
+task("task:stake-for", "Calls the stakeFor() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("beneficiary", "The address that will own the stake")
+  .addParam("amount", "The amount of fTEST to stake (e.g. 25.5)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    if (!ethers.isAddress(taskArguments.beneficiary)) {
+      throw new Error(`Argument --beneficiary is not a valid address`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { stakingAddress, stakingContract, tokenContract } = await resolveStaking(hre, taskArguments.address);
+    const amount = parseAmount(hre, taskArguments.amount, await tokenContract.decimals());
+
+    const signers = await ethers.getSigners();
+
+    // The caller funds the stake through transferFrom, so NightStaking must be its operator.
+    if (!(await tokenContract.isOperator(signers[0].address, stakingAddress))) {
+      throw new Error(`NightStaking is not an operator of ${signers[0].address}; run task:set-operator first`);
+    }
+
+    // Encrypt the amount passed as argument
+    const encryptedValue = await fhevm.createEncryptedInput(stakingAddress, signers[0].address).add64(amount).encrypt();
+
+    const tx = await stakingContract
+      .connect(signers[0])
+      .stakeFor(taskArguments.beneficiary, encryptedValue.handles[0], encryptedValue.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // Only the beneficiary can decrypt the stake; run task:decrypt-stake as the beneficiary to check it.
+    console.log(`NightStaking stakeFor(${taskArguments.beneficiary}, ${taskArguments.amount}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:unstake --amount 20
+ *   - npx hardhat --network sepolia task:unstake --amount 20 --position 3
+ */
+task("task:unstake", "Calls the unstake() or unstakePosition() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("amount", "The amount of fTEST to unstake (e.g. 25.5)")
+  .addOptionalParam("position", "The unlocked position to unstake from; 0 is the flexible stake", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { client, tokenContract } = await resolveClient(hre, taskArguments.address);
+    const amount = parseAmount(hre, taskArguments.amount, await tokenContract.decimals());
+
+    const tx = await client.unstake(amount, BigInt(taskArguments.position));
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const moved = await client.lastUnstakeResult();
+    console.log(`NightStaking unstake(${taskArguments.amount}) succeeded!`);
+    console.log(`Withdrawn amount: ${ethers.formatUnits(moved, await tokenContract.decimals())} fTEST`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:stake-locked --days 30 --amount 50
+ *   - npx hardhat --network sepolia task:stake-locked --days 90 --amount 50
+ */
+task("task:stake-locked", "Opens a locked NightStaking position with a single confidentialTransferAndCall")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("days", "The lock-up period: 7, 30 or 90 days")
+  .addParam("amount", "The amount of fTEST to lock (e.g. 25.5)")
+  .addFlag("useOperator", "Call stakeLocked() instead, which requires NightStaking to be an operator")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    // Mirrors NightStaking.LockTier
+    const tiers: Record<string, number> = { "7": 1, "30": 2, "90": 3 };
+    const tier = tiers[taskArguments.days];
+    if (tier === undefined) {
+      throw new Error(`Argument --days must be one of 7, 30 or 90`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { client, stakingContract, tokenContract } = await resolveClient(hre, taskArguments.address);
+    const amount = parseAmount(hre, taskArguments.amount, await tokenContract.decimals());
+
+    const tx = await client.stake(amount, { tier, viaOperator: taskArguments.useOperator });
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const positionIds = await stakingContract.getPositionIds(client.account);
+    console.log(`NightStaking stakeLocked(${taskArguments.days} days, ${taskArguments.amount}) succeeded!`);
+    console.log(`Position id     : ${positionIds[positionIds.length - 1]}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:positions
+ *   - npx hardhat --network sepolia task:positions
+ */
+task("task:positions", "Decrypts every locked position of the caller in NightStaking")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { client, tokenContract } = await resolveClient(hre, taskArguments.address);
+    const decimals = await tokenContract.decimals();
+
+    const positions = await client.getPositions();
+    if (positions.length === 0) {
+      console.log("No locked positions");
+      return;
+    }
+
+    for (const { id, unlockTime, principal, rewards } of positions) {
+      console.log(`Position #${id}`);
+      console.log(`  Unlock time : ${new Date(Number(unlockTime) * 1000).toISOString()}`);
+      console.log(`  Principal   : ${ethers.formatUnits(principal, decimals)} fTEST`);
+      console.log(`  Rewards     : ${ethers.formatUnits(rewards[0].amount, decimals)} fTEST`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:withdrawals
+ *   - npx hardhat --network sepolia task:withdrawals
+ */
+task("task:withdrawals", "Decrypts every pending withdrawal of the caller in NightStaking")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { client, tokenContract } = await resolveClient(hre, taskArguments.address);
+    const decimals = await tokenContract.decimals();
+
+    const withdrawals = await client.getPendingWithdrawals();
+    if (withdrawals.length === 0) {
+      console.log("No pending withdrawals");
+      return;
+    }
+
+    for (const { id, positionId, amount, maturity } of withdrawals) {
+      console.log(`Withdrawal #${id} (position ${positionId})`);
+      console.log(`  Matures at : ${new Date(Number(maturity) * 1000).toISOString()}`);
+      console.log(`  Amount     : ${ethers.formatUnits(amount, decimals)} fTEST`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:withdraw
+ *   - npx hardhat --network sepolia task:withdraw
+ */
+task("task:withdraw", "Calls the withdraw() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).withdraw();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking withdraw() succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:cancel-withdrawal --id 1
+ *   - npx hardhat --network sepolia task:cancel-withdrawal --id 1
+ */
+task("task:cancel-withdrawal", "Calls the cancelWithdrawal() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("id", "The pending withdrawal id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const withdrawalId = BigInt(taskArguments.id);
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).cancelWithdrawal(withdrawalId);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking cancelWithdrawal(${withdrawalId}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:transfer-position --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *   - npx hardhat --network sepolia task:transfer-position --id 1 --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --into 4
+ */
+task("task:transfer-position", "Calls the transferPosition() or mergePosition() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addOptionalParam("id", "The position id; 0 is the flexible position, which always merges", "0")
+  .addParam("to", "The address that receives the position")
+  .addOptionalParam("into", "Merge into this position of the recipient instead of moving the position as is")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (!ethers.isAddress(taskArguments.to)) {
+      throw new Error(`Argument --to is not a valid address`);
+    }
+    const positionId = BigInt(taskArguments.id);
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx =
+      taskArguments.into === undefined
+        ? await stakingContract.connect(signers[0]).transferPosition(positionId, taskArguments.to)
+        : await stakingContract
+            .connect(signers[0])
+            .mergePosition(positionId, taskArguments.to, BigInt(taskArguments.into));
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking position #${positionId} moved to ${taskArguments.to}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:claim
+ *   - npx hardhat --network sepolia task:claim
+ */
+task("task:claim", "Calls the claimRewards() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { client } = await resolveClient(hre, taskArguments.address);
+
+    const tx = await client.claim();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking claimRewards() succeeded!`);
+    if (!(await client.lastClaimResult())) {
+      console.log("The reward reserve was short: the rest stays owed until the owner funds it.");
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:claim-bonus
+ *   - npx hardhat --network sepolia task:claim-bonus --position 3
+ */
+task("task:claim-bonus", "Calls the claimBonusRewards() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addOptionalParam("position", "The position to claim for; 0 is the flexible stake", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const positionId = parseInt(taskArguments.position);
+    if (!Number.isInteger(positionId) || positionId < 0) {
+      throw new Error(`Argument --position is not a non-negative integer`);
+    }
+
+    const { client } = await resolveClient(hre, taskArguments.address);
+
+    const tx = await client.claimBonus(BigInt(positionId));
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking claimBonusRewards(${positionId}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:compound
+ *   - npx hardhat --network sepolia task:compound
+ */
+task("task:compound", "Calls the compound() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).compound();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking compound() succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-auto-compound --enabled true
+ *   - npx hardhat --network sepolia task:set-auto-compound --enabled false
+ */
+task("task:set-auto-compound", "Calls the setAutoCompound() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("enabled", "Either 'true' or 'false'")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (taskArguments.enabled !== "true" && taskArguments.enabled !== "false") {
+      throw new Error(`Argument --enabled must be 'true' or 'false'`);
+    }
+    const enabled = taskArguments.enabled === "true";
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).setAutoCompound(enabled);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking setAutoCompound(${enabled}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:fund-rewards --amount 10
+ *   - npx hardhat --network sepolia task:fund-rewards --amount 10
+ */
+task("task:fund-rewards", "Calls the fundRewards() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("amount", "The amount of fTEST to add to the reward reserve (e.g. 25.5)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { stakingAddress, stakingContract, tokenContract } = await resolveStaking(hre, taskArguments.address);
+    const amount = parseAmount(hre, taskArguments.amount, await tokenContract.decimals());
+
+    const signers = await ethers.getSigners();
+
+    // Encrypt the amount passed as argument
+    const encryptedValue = await fhevm.createEncryptedInput(stakingAddress, signers[0].address).add64(amount).encrypt();
+
+    const tx = await stakingContract
+      .connect(signers[0])
+      .fundRewards(encryptedValue.handles[0], encryptedValue.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking fundRewards(${taskArguments.amount}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-bonus-rewards --token 0x5FbDB2315678afecb367f032d93F642f64180aa3 --rate 50
+ *   - npx hardhat --network sepolia task:set-bonus-rewards --token 0x5FbDB2315678afecb367f032d93F642f64180aa3 --rate 0
+ */
+task("task:set-bonus-rewards", "Calls the setBonusRewards() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("token", "The ERC7984 token bonus rewards are paid in; fixed after the first call")
+  .addParam("rate", "The daily bonus rate in basis points (100 = 1% per day)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (!ethers.isAddress(taskArguments.token)) {
+      throw new Error(`Argument --token is not a valid address`);
+    }
+    const rate = parseInt(taskArguments.rate);
+    if (!Number.isInteger(rate) || rate < 0) {
+      throw new Error(`Argument --rate is not a non-negative integer`);
+    }
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).setBonusRewards(taskArguments.token, rate);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking setBonusRewards(${taskArguments.token}, ${rate}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:fund-bonus-rewards --amount 10
+ *   - npx hardhat --network sepolia task:fund-bonus-rewards --amount 10
+ */
+task("task:fund-bonus-rewards", "Calls the fundBonusRewards() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("amount", "The amount of the bonus token to add to the bonus reserve (e.g. 25.5)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { stakingAddress, stakingContract } = await resolveStaking(hre, taskArguments.address);
+    const [bonusTokenAddress] = await stakingContract.getBonusRewards();
+    if (bonusTokenAddress === ethers.ZeroAddress) {
+      throw new Error(`NightStaking has no bonus token yet; run task:set-bonus-rewards first`);
+    }
+    const bonusToken = await ethers.getContractAt("ERC7984Test", bonusTokenAddress);
+    const amount = parseAmount(hre, taskArguments.amount, await bonusToken.decimals());
+
+    const signers = await ethers.getSigners();
+
+    const encryptedValue = await fhevm.createEncryptedInput(stakingAddress, signers[0].address).add64(amount).encrypt();
+
+    const tx = await stakingContract
+      .connect(signers[0])
+      .fundBonusRewards(encryptedValue.handles[0], encryptedValue.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking fundBonusRewards(${taskArguments.amount}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-reward-rate --rate 150
+ *   - npx hardhat --network sepolia task:set-reward-rate --rate 150
+ */
+task("task:set-reward-rate", "Calls the setRewardRate() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("rate", "The new daily reward rate in basis points (100 = 1% per day)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const rate = parseInt(taskArguments.rate);
+    if (!Number.isInteger(rate) || rate < 0) {
+      throw new Error(`Argument --rate is not a non-negative integer`);
+    }
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).setRewardRate(rate);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking setRewardRate(${rate}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:reward-rates
+ *   - npx hardhat --network sepolia task:reward-rates
+ */
+task("task:reward-rates", "Prints the reward rate checkpoints of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const divisor = await stakingContract.RATE_DIVISOR();
+    const checkpoints = await stakingContract.getRateCheckpoints();
+
+    for (const checkpoint of checkpoints) {
+      const percent = (Number(checkpoint.dailyRate) * 100) / Number(divisor);
+      console.log(
+        `${new Date(Number(checkpoint.effectiveFrom) * 1000).toISOString()}  ${checkpoint.dailyRate} bps (${percent}% daily)`,
+      );
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-accrual-mode --mode per-second
+ *   - npx hardhat --network sepolia task:set-accrual-mode --mode daily
+ */
+task("task:set-accrual-mode", "Calls the setAccrualMode() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("mode", "Either 'daily' (whole days) or 'per-second'")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const modes: Record<string, number> = { daily: 0, "per-second": 1 };
+    const mode = modes[taskArguments.mode];
+    if (mode === undefined) {
+      throw new Error(`Argument --mode must be one of: ${Object.keys(modes).join(", ")}`);
+    }
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).setAccrualMode(mode);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking setAccrualMode(${taskArguments.mode}) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-unbonding-period --days 3
+ *   - npx hardhat --network sepolia task:set-unbonding-period --days 0
+ */
+task("task:set-unbonding-period", "Calls the setUnbondingPeriod() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("days", "Whole days unstaked principal waits before withdraw() releases it (0 disables the queue)")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const days = parseInt(taskArguments.days);
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error(`Argument --days is not a non-negative integer`);
+    }
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).setUnbondingPeriod(days * 86_400);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking setUnbondingPeriod(${days} days) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-early-unstake-penalty --rate 500 --days 7
+ *   - npx hardhat --network sepolia task:set-early-unstake-penalty --rate 0 --days 0
+ */
+task("task:set-early-unstake-penalty", "Calls the setEarlyUnstakePenalty() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("rate", "Penalty in basis points of withdrawn principal (500 = 5%, 0 disables it)")
+  .addParam("days", "Whole days after a deposit during which unstaking is penalised")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const rate = parseInt(taskArguments.rate);
+    if (!Number.isInteger(rate) || rate < 0) {
+      throw new Error(`Argument --rate is not a non-negative integer`);
+    }
+    const days = parseInt(taskArguments.days);
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error(`Argument --days is not a non-negative integer`);
+    }
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).setEarlyUnstakePenalty(rate, days * 86_400);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking setEarlyUnstakePenalty(${rate} bps, ${days} days) succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:set-epoch-emission --amount 7 --hours 24
+ *   - npx hardhat --network sepolia task:set-epoch-emission --amount 1000 --hours 168
+ */
+task("task:set-epoch-emission", "Calls the setEpochEmission() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("amount", "Reward tokens emitted per epoch")
+  .addParam("hours", "Epoch length in whole hours")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    const hours = parseInt(taskArguments.hours);
+    if (!Number.isInteger(hours) || hours <= 0) {
+      throw new Error(`Argument --hours is not a positive integer`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { stakingContract, tokenContract } = await resolveStaking(hre, taskArguments.address);
+    const budget = parseAmount(hre, taskArguments.amount, await tokenContract.decimals());
+    const firstEpoch = (await stakingContract.epochCount()) === 0n;
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).setEpochEmission(budget, hours * 3_600);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking setEpochEmission(${taskArguments.amount} per epoch, ${hours} hours) succeeded!`);
+    // The first call starts epoch 1, whose total principal is revealed by the oracle.
+    if (firstEpoch && fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:pause
+ *   - npx hardhat --network sepolia task:pause --unpause
+ */
+task("task:pause", "Calls the pause() or unpause() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addFlag("unpause", "Resume staking instead of pausing it")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = taskArguments.unpause
+      ? await stakingContract.connect(signers[0]).unpause()
+      : await stakingContract.connect(signers[0]).pause();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`NightStaking ${taskArguments.unpause ? "unpause" : "pause"}() succeeded!`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:emergency-withdraw
+ *   - npx hardhat --network sepolia task:emergency-withdraw
+ */
+task("task:emergency-withdraw", "Calls the emergencyWithdraw() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { stakingAddress, stakingContract, tokenContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).emergencyWithdraw();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const returned = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await stakingContract.getLastUnstakeResult(signers[0].address),
+      stakingAddress,
+      signers[0],
+    );
+    console.log(`NightStaking emergencyWithdraw() succeeded!`);
+    console.log(`Returned principal: ${ethers.formatUnits(returned, await tokenContract.decimals())} fTEST`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:grant-auditor --auditor 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *   - npx hardhat --network sepolia task:grant-auditor --auditor 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --revoke
+ */
+task("task:grant-auditor", "Calls the grantAuditor() or revokeAuditor() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addParam("auditor", "The address allowed to decrypt the caller's stake")
+  .addFlag("revoke", "Stop sharing new stake handles with the auditor instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    if (!ethers.isAddress(taskArguments.auditor)) {
+      throw new Error(`Argument --auditor is not a valid address`);
+    }
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = taskArguments.revoke
+      ? await stakingContract.connect(signers[0]).revokeAuditor(taskArguments.auditor)
+      : await stakingContract.connect(signers[0]).grantAuditor(taskArguments.auditor);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const auditors = await stakingContract.getAuditors(signers[0].address);
+    console.log(
+      `NightStaking ${taskArguments.revoke ? "revokeAuditor" : "grantAuditor"}(${taskArguments.auditor}) succeeded!`,
+    );
+    console.log(`Auditors: ${auditors.length > 0 ? auditors.join(", ") : "none"}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:reveal-tvl
+ *   - npx hardhat --network sepolia task:reveal-tvl
+ */
+task("task:reveal-tvl", "Calls the requestTvlReveal() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { stakingContract, tokenContract } = await resolveStaking(hre, taskArguments.address);
+    const decimals = await tokenContract.decimals();
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).requestTvlReveal();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (fhevm.isMock) {
+      // No relayer watches the local chain, so fulfil the request with the mock oracle.
+      await fhevm.awaitDecryptionOracle();
+      console.log(`Revealed TVL: ${ethers.formatUnits(await stakingContract.revealedTvl(), decimals)} fTEST`);
+    } else {
+      console.log("Decryption requested; run task:tvl once the oracle has answered.");
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:tvl
+ *   - npx hardhat --network sepolia task:tvl
+ */
+task("task:tvl", "Prints the last TVL NightStaking revealed through the decryption oracle")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { stakingContract, tokenContract } = await resolveStaking(hre, taskArguments.address);
+    const decimals = await tokenContract.decimals();
+
+    const revealedAt = await stakingContract.tvlRevealedAt();
+    if (revealedAt === 0n) {
+      console.log("TVL has not been revealed yet");
+    } else {
+      const tvl = await stakingContract.revealedTvl();
+      console.log(`TVL        : ${ethers.formatUnits(tvl, decimals)} fTEST`);
+      console.log(`Revealed at: ${new Date(Number(revealedAt) * 1000).toISOString()}`);
+    }
+
+    const nextRevealAt = await stakingContract.nextTvlRevealAt();
+    console.log(`Next reveal: ${nextRevealAt === 0n ? "now" : new Date(Number(nextRevealAt) * 1000).toISOString()}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:start-epoch
+ *   - npx hardhat --network sepolia task:start-epoch
+ */
+task("task:start-epoch", "Calls the startEpoch() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).startEpoch();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (fhevm.isMock) {
+      // No relayer watches the local chain, so fulfil the request with the mock oracle.
+      await fhevm.awaitDecryptionOracle();
+      console.log(`Epoch ${await stakingContract.epochCount()} started and priced`);
+    } else {
+      console.log("Epoch started; it is priced once the oracle reveals its total principal.");
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:retry-epoch-reveal
+ *   - npx hardhat --network sepolia task:retry-epoch-reveal
+ */
+task("task:retry-epoch-reveal", "Calls the retryEpochReveal() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { stakingContract } = await resolveStaking(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await stakingContract.connect(signers[0]).retryEpochReveal();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    if (fhevm.isMock) {
+      await fhevm.awaitDecryptionOracle();
+      console.log(`Epoch ${await stakingContract.epochCount()} priced`);
+    } else {
+      console.log("Reveal requested again; the epoch is priced once the oracle answers.");
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:epochs
+ *   - npx hardhat --network sepolia task:epochs
+ */
+task("task:epochs", "Prints the epoch emission schedule of NightStaking")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { stakingContract, tokenContract } = await resolveStaking(hre, taskArguments.address);
+    const decimals = await tokenContract.decimals();
+
+    const count = await stakingContract.epochCount();
+    if (count === 0n) {
+      console.log("Epoch emission is not enabled; rewards accrue at the fixed daily rate");
+      return;
+    }
+
+    const length = await stakingContract.epochLength();
+    console.log(`Budget : ${ethers.formatUnits(await stakingContract.epochBudget(), decimals)} per epoch`);
+    console.log(`Length : ${Number(length) / 3_600} hours`);
+    for (let epochId = 1n; epochId <= count; epochId++) {
+      const epoch = await stakingContract.getEpoch(epochId);
+      const startedAt = new Date(Number(epoch.startedAt) * 1000).toISOString();
+      const total = epoch.finalized
+        ? `${ethers.formatUnits(epoch.totalPrincipal, decimals)} staked`
+        : "awaiting oracle";
+      console.log(`#${epochId}: started ${startedAt}, budget ${ethers.formatUnits(epoch.budget, decimals)}, ${total}`);
+    }
+    const nextEpochAt = (await stakingContract.getEpoch(count)).startedAt + length;
+    console.log(`Next epoch: ${new Date(Number(nextEpochAt) * 1000).toISOString()}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:decrypt-stake
+ *   - npx hardhat --network sepolia task:decrypt-stake
+ */
+task("task:decrypt-stake", "Calls the getStakeDetails() function of NightStaking Contract")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .addOptionalParam("account", "Decrypt another account's stake; the caller must be one of its auditors")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { client, stakingContract, tokenContract } = await resolveClient(hre, taskArguments.address);
+    const decimals = await tokenContract.decimals();
+
+    const account = taskArguments.account ?? client.account;
+    if (!ethers.isAddress(account)) {
+      throw new Error(`Argument --account is not a valid address`);
+    }
+
+    const [principalHandle, rewardHandles] = await stakingContract.getStakeDetails(account, 0);
+    const { principal, rewards } = await client.getPosition(0n, account);
+
+    console.log(`Encrypted principal: ${principalHandle}`);
+    console.log(`Clear principal    : ${ethers.formatUnits(principal, decimals)} fTEST`);
+    // One entry per reward token: the pool's reward token, then the bonus token if one is set.
+    for (const [index, reward] of rewards.entries()) {
+      const rewardToken = await ethers.getContractAt("ERC7984Test", reward.token);
+      const symbol = await rewardToken.symbol();
+      console.log(`Encrypted rewards  : ${rewardHandles[index].amount} (${symbol})`);
+      console.log(`Clear rewards      : ${ethers.formatUnits(reward.amount, await rewardToken.decimals())} ${symbol}`);
+      console.log(
+        `Last accrued       : ${reward.lastAccrued === 0n ? "never" : new Date(Number(reward.lastAccrued) * 1000).toISOString()}`,
+      );
+    }
+  });
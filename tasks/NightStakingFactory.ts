@@ -0,0 +1,99 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Create staking pools (--network localhost | sepolia)
+ * ==============================================================
+ *
+ * 1. Deploy the factory together with the fTEST and cTEST pools
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 2. Create a pool for any ERC7984 token, optionally paying rewards in another one,
+ *    and list every registered pool. Other NightStaking tasks take the pool with --address.
+ *
+ *   npx hardhat --network localhost task:create-pool --staking-token <address> --rate 150
+ *   npx hardhat --network localhost task:pools
+ *   npx hardhat --network localhost task:decrypt-stake --address <pool>
+ *
+ */
+
+async function resolveFactory(hre: HardhatRuntimeEnvironment, address?: string) {
+  const { ethers, deployments } = hre;
+
+  const NightStakingFactoryDeployment = address ? { address } : await deployments.get("NightStakingFactory");
+  console.log(`NightStakingFactory: ${NightStakingFactoryDeployment.address}`);
+
+  return ethers.getContractAt("NightStakingFactory", NightStakingFactoryDeployment.address);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:create-pool --staking-token <address> --rate 150
+ *   - npx hardhat --network sepolia task:create-pool --staking-token <address> --reward-token <address>
+ */
+task("task:create-pool", "Calls the createPool() function of NightStakingFactory Contract")
+  .addOptionalParam("address", "Optionally specify the NightStakingFactory contract address")
+  .addParam("stakingToken", "The ERC7984 token the pool accepts as principal")
+  .addOptionalParam("rewardToken", "The ERC7984 token rewards are paid in (defaults to the staking token)")
+  .addOptionalParam("rate", "Daily reward rate in basis points (100 = 1% per day)", "100")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const rate = parseInt(taskArguments.rate);
+    if (!Number.isInteger(rate) || rate < 0) {
+      throw new Error(`Argument --rate is not a non-negative integer`);
+    }
+    const stakingToken = taskArguments.stakingToken;
+    const rewardToken = taskArguments.rewardToken ?? stakingToken;
+    for (const token of [stakingToken, rewardToken]) {
+      if (!ethers.isAddress(token)) {
+        throw new Error(`Invalid token address: ${token}`);
+      }
+    }
+
+    const factoryContract = await resolveFactory(hre, taskArguments.address);
+
+    const signers = await ethers.getSigners();
+
+    const tx = await factoryContract.connect(signers[0]).createPool(stakingToken, rewardToken, rate);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const { pool } = await factoryContract.getPool((await factoryContract.poolCount()) - 1n);
+    console.log(`NightStaking pool created at ${pool}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:pools
+ *   - npx hardhat --network sepolia task:pools --staking-token <address>
+ */
+task("task:pools", "Lists the pools registered in NightStakingFactory Contract")
+  .addOptionalParam("address", "Optionally specify the NightStakingFactory contract address")
+  .addOptionalParam("stakingToken", "Only list pools for this staking token")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const factoryContract = await resolveFactory(hre, taskArguments.address);
+
+    const pools = taskArguments.stakingToken
+      ? await factoryContract.getPoolsByToken(taskArguments.stakingToken)
+      : await factoryContract.getPools();
+    if (pools.length === 0) {
+      console.log("No pools registered yet");
+      return;
+    }
+
+    for (const info of pools) {
+      const stakingContract = await ethers.getContractAt("NightStaking", info.pool);
+      const stakingToken = await ethers.getContractAt("ERC7984Test", info.stakingToken);
+      const rewardToken = await ethers.getContractAt("ERC7984Test", info.rewardToken);
+      const rate = await stakingContract.currentRewardRate();
+      console.log(
+        `${info.pool}  stake ${await stakingToken.symbol()}  reward ${await rewardToken.symbol()}  ${rate} bps daily  owner ${await stakingContract.owner()}`,
+      );
+    }
+  });
@@ -0,0 +1,254 @@
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import * as path from "path";
+
+/**
+ * Tutorial: Keep the frontend contract config in sync
+ * ===================================================
+ *
+ * 1. Deploy, then regenerate the ABI module and one address module per network
+ *    found under deployments/ (or only the ones passed with --networks)
+ *
+ *   npx hardhat --network sepolia deploy
+ *   npx hardhat task:frontend-config
+ *   npx hardhat task:frontend-config --networks sepolia
+ *
+ * 2. Fail when the committed modules no longer match the compiled contracts
+ *    or the deployments they were generated from, when a network module
+ *    is missing one of the contract addresses, or when the app's network
+ *    registry and the network modules do not list the same networks
+ *
+ *   npx hardhat task:frontend-config --check
+ *
+ */
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+type FrontendContract = {
+  name: string;
+  constant: string;
+  // Pools are clones created at runtime, so only their ABI goes into the app.
+  hasAddress: boolean;
+  comment?: string;
+};
+
+const FRONTEND_CONTRACTS: FrontendContract[] = [
+  { name: "ERC7984Test", constant: "FTEST_TOKEN", hasAddress: true },
+  {
+    name: "NightStakingFactory",
+    constant: "NIGHT_STAKING_FACTORY",
+    hasAddress: true,
+    comment:
+      "Pools are read from the factory's registry rather than configured, so every pool it creates shows up in the app.",
+  },
+  {
+    name: "NightStaking",
+    constant: "NIGHT_STAKING",
+    hasAddress: false,
+    comment: "Shared by every pool the factory creates.",
+  },
+  { name: "ConfidentialWrapper", constant: "CONFIDENTIAL_WRAPPER", hasAddress: true },
+];
+
+type AbiEntry = { type: string; name?: string; inputs?: { type: string }[] };
+
+function generatedDir(hre: HardhatRuntimeEnvironment) {
+  return path.join(hre.config.paths.root, "app", "src", "config", "generated");
+}
+
+function header(source: string) {
+  return `// Generated by \`npx hardhat task:frontend-config\` from ${source}. Do not edit by hand.\n`;
+}
+
+function comment(text?: string) {
+  return text ? `// ${text}\n` : "";
+}
+
+async function renderAbis(hre: HardhatRuntimeEnvironment) {
+  const abis: Record<string, AbiEntry[]> = {};
+  let source = header("the compiled artifacts");
+  for (const contract of FRONTEND_CONTRACTS) {
+    const { abi } = await hre.artifacts.readArtifact(contract.name);
+    abis[contract.constant] = abi;
+    source += `\n${comment(contract.comment)}export const ${contract.constant}_ABI = ${JSON.stringify(abi, null, 2)} as const;\n`;
+  }
+  return { abis, source };
+}
+
+function renderAddresses(hre: HardhatRuntimeEnvironment, network: string) {
+  const dir = path.join(hre.config.paths.deployments, network);
+  const chainIdFile = path.join(dir, ".chainId");
+  if (!fs.existsSync(chainIdFile)) {
+    throw new Error(`No deployments found for network ${network} in ${dir}`);
+  }
+
+  let source = header(`deployments/${network}`);
+  source += `\nexport const CHAIN_ID = ${parseInt(fs.readFileSync(chainIdFile, "utf8").trim())};\n`;
+  for (const contract of FRONTEND_CONTRACTS.filter((c) => c.hasAddress)) {
+    const deploymentFile = path.join(dir, `${contract.name}.json`);
+    let address = ZERO_ADDRESS;
+    if (fs.existsSync(deploymentFile)) {
+      address = JSON.parse(fs.readFileSync(deploymentFile, "utf8")).address;
+    } else {
+      console.log(`${contract.name} is not deployed on ${network}; using the zero address`);
+    }
+    source += `\n${comment(contract.comment)}export const ${contract.constant}_ADDRESS = '${address}';\n`;
+  }
+  return source;
+}
+
+function registryFile(hre: HardhatRuntimeEnvironment) {
+  return path.join(hre.config.paths.root, "app", "src", "config", "networks.ts");
+}
+
+// The network modules the app's registry imports, by file name.
+function registeredModules(hre: HardhatRuntimeEnvironment) {
+  const source = fs.readFileSync(registryFile(hre), "utf8");
+  return new Set([...source.matchAll(/from '\.\/generated\/(\w+)'/g)].map((match) => `${match[1]}.ts`));
+}
+
+// Contracts a network module leaves at the zero address, which the app cannot use on that network.
+function undeployedContracts(source: string) {
+  return [...source.matchAll(/export const (\w+)_ADDRESS = '(0x0{40})';/g)].map((match) => match[1]);
+}
+
+function abiSignature(entry: AbiEntry) {
+  return `${entry.type} ${entry.name ?? ""}(${(entry.inputs ?? []).map((input) => input.type).join(",")})`;
+}
+
+// Reads the ABIs back out of a committed module so drift can be reported entry by entry.
+function parseCommittedAbis(source: string) {
+  const abis: Record<string, AbiEntry[]> = {};
+  for (const match of source.matchAll(/export const (\w+)_ABI = ([\s\S]*?) as const;/g)) {
+    abis[match[1]] = JSON.parse(match[2]);
+  }
+  return abis;
+}
+
+function describeAbiDrift(committed: Record<string, AbiEntry[]>, compiled: Record<string, AbiEntry[]>) {
+  const lines: string[] = [];
+  for (const [constant, abi] of Object.entries(compiled)) {
+    const before = committed[constant];
+    if (!before) {
+      lines.push(`  ${constant}_ABI is missing`);
+      continue;
+    }
+    const beforeSignatures = new Set(before.map(abiSignature));
+    const afterSignatures = new Set(abi.map(abiSignature));
+    const added = [...afterSignatures].filter((signature) => !beforeSignatures.has(signature));
+    const removed = [...beforeSignatures].filter((signature) => !afterSignatures.has(signature));
+    for (const signature of added) {
+      lines.push(`  ${constant}_ABI is missing ${signature}`);
+    }
+    for (const signature of removed) {
+      lines.push(`  ${constant}_ABI lists ${signature}, which the contract no longer has`);
+    }
+    if (added.length === 0 && removed.length === 0 && JSON.stringify(before) !== JSON.stringify(abi)) {
+      lines.push(`  ${constant}_ABI differs in parameter names, outputs or mutability`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Example:
+ *   - npx hardhat task:frontend-config
+ *   - npx hardhat task:frontend-config --networks localhost,sepolia
+ *   - npx hardhat task:frontend-config --check
+ */
+task("task:frontend-config", "Generates the app's contract ABIs and per-network addresses from the build")
+  .addOptionalParam("networks", "Comma-separated networks to generate (defaults to every network under deployments/)")
+  .addFlag("check", "Fail instead of writing when the committed modules are out of date")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    await hre.run("compile", { quiet: true });
+
+    const outDir = generatedDir(hre);
+    const deploymentsDir = hre.config.paths.deployments;
+    const networks: string[] = taskArguments.networks
+      ? taskArguments.networks.split(",").map((network: string) => network.trim())
+      : fs.existsSync(deploymentsDir)
+        ? fs.readdirSync(deploymentsDir).filter((entry) => fs.existsSync(path.join(deploymentsDir, entry, ".chainId")))
+        : [];
+
+    const { abis, source: abiSource } = await renderAbis(hre);
+    const modules: Record<string, string> = { "abis.ts": abiSource };
+    for (const network of networks) {
+      modules[`${network}.ts`] = renderAddresses(hre, network);
+    }
+
+    const registered = registeredModules(hre);
+    const registryPath = path.relative(hre.config.paths.root, registryFile(hre));
+
+    if (!taskArguments.check) {
+      fs.mkdirSync(outDir, { recursive: true });
+      for (const [file, source] of Object.entries(modules)) {
+        fs.writeFileSync(path.join(outDir, file), source);
+        console.log(`Wrote ${path.relative(hre.config.paths.root, path.join(outDir, file))}`);
+        if (file !== "abis.ts" && !registered.has(file)) {
+          console.log(`  Add an entry for it to ${registryPath} so the app lists the network`);
+        }
+      }
+      return;
+    }
+
+    const problems: string[] = [];
+    for (const [file, source] of Object.entries(modules)) {
+      const target = path.join(outDir, file);
+      const committed = fs.existsSync(target) ? fs.readFileSync(target, "utf8") : null;
+      if (committed === source) {
+        continue;
+      }
+      problems.push(`${path.relative(hre.config.paths.root, target)} is out of date`);
+      if (committed !== null && file === "abis.ts") {
+        problems.push(...describeAbiDrift(parseCommittedAbis(committed), abis));
+      }
+    }
+
+    // Committed modules are checked too, since deployments/ is not part of the repository.
+    const networkFiles = new Set(Object.keys(modules).filter((file) => file !== "abis.ts"));
+    if (fs.existsSync(outDir)) {
+      fs.readdirSync(outDir)
+        .filter((file) => file.endsWith(".ts") && file !== "abis.ts")
+        .forEach((file) => networkFiles.add(file));
+    }
+    const undeployed: string[] = [];
+    for (const file of networkFiles) {
+      const source = modules[file] ?? fs.readFileSync(path.join(outDir, file), "utf8");
+      for (const constant of undeployedContracts(source)) {
+        undeployed.push(`${path.relative(hre.config.paths.root, path.join(outDir, file))} has no ${constant} address`);
+      }
+    }
+
+    const unregistered = [...networkFiles]
+      .filter((file) => !registered.has(file))
+      .map(
+        (file) => `${path.relative(hre.config.paths.root, path.join(outDir, file))} has no entry in ${registryPath}`,
+      );
+    const missing = [...registered]
+      .filter((file) => !networkFiles.has(file))
+      .map((file) => `${registryPath} imports ./generated/${path.basename(file, ".ts")}, which has no module`);
+
+    const errors: string[] = [];
+    if (problems.length > 0) {
+      errors.push(
+        `Frontend contract config has drifted:\n${problems.join("\n")}\nRun task:frontend-config to regenerate it.`,
+      );
+    }
+    if (undeployed.length > 0) {
+      errors.push(
+        `Frontend contract config has undeployed contracts:\n${undeployed.join("\n")}\n` +
+          "Deploy them to that network, then run task:frontend-config --networks <network> to record their addresses.",
+      );
+    }
+    if (unregistered.length > 0 || missing.length > 0) {
+      errors.push(
+        `Frontend network registry and network modules disagree:\n${[...missing, ...unregistered].join("\n")}\n` +
+          "Generate a module for every registered network, and register every network that has one.",
+      );
+    }
+    if (errors.length > 0) {
+      throw new Error(errors.join("\n"));
+    }
+    console.log(`Frontend contract config matches the build (${Object.keys(modules).join(", ")})`);
+  });
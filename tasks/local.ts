@@ -0,0 +1,253 @@
+import { type ChildProcess, spawn } from "child_process";
+import { task } from "hardhat/config";
+import type { HttpNetworkConfig, TaskArguments } from "hardhat/types";
+import * as path from "path";
+
+import { NightVaultClient, createRelayerAdapter } from "../sdk/src";
+
+/**
+ * Tutorial: Run the app fully offline (--network localhost)
+ * =========================================================
+ *
+ * The node answers the app's relayer calls (input proofs, user and public decryptions)
+ * itself, so the app's local network points its mock instance straight at the node's RPC.
+ * Nothing watches the node's decryption oracle though, so TVL reveals, epoch pricing and
+ * unwraps stay pending until something fulfils them.
+ *
+ * 1. Start a node, deploy, then fulfil its decryption requests after every block
+ *
+ *   npx hardhat node
+ *   npx hardhat --network localhost deploy
+ *   npx hardhat --network localhost task:decryption-oracle
+ *
+ * 2. Or run the node, the deployment, the oracle and the app's dev server in one go
+ *
+ *   npm run dev:local
+ *
+ * 3. Check the offline stack end to end: the same steps, with a TVL reveal instead of the app
+ *
+ *   npm run check:local
+ *
+ */
+
+const LOCAL_RPC_URL = "http://127.0.0.1:8545";
+const NODE_START_TIMEOUT_MS = 120_000;
+const ORACLE_POLL_INTERVAL_MS = 1_000;
+const REVEAL_TIMEOUT_MS = 60_000;
+
+// Served by @fhevm/hardhat-plugin on the node; fulfils every pending decryption request.
+const AWAIT_DECRYPTION_ORACLE = "fhevm_awaitDecryptionOracle";
+
+async function rpc(url: string, method: string, params: unknown[] = []) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  const body = (await response.json()) as { result?: unknown; error?: { message: string } };
+  if (body.error) {
+    throw new Error(body.error.message);
+  }
+  return body.result;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Asks the node's decryption oracle to answer after each new block, until `stopped` returns true.
+ * A reverting callback only fails the call that ran it, so errors are logged and the loop goes on.
+ */
+async function runDecryptionOracle(url: string, stopped: () => boolean) {
+  let lastBlock: bigint | undefined;
+  while (!stopped()) {
+    try {
+      const block = BigInt((await rpc(url, "eth_blockNumber")) as string);
+      if (block !== lastBlock) {
+        lastBlock = block;
+        await rpc(url, AWAIT_DECRYPTION_ORACLE);
+      }
+    } catch (e) {
+      if (stopped()) {
+        break;
+      }
+      console.log(`Decryption oracle failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    await sleep(ORACLE_POLL_INTERVAL_MS);
+  }
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:decryption-oracle
+ */
+task("task:decryption-oracle", "Fulfils a local node's decryption requests after every block").setAction(
+  async function (_taskArguments: TaskArguments, hre) {
+    const { fhevm, network } = hre;
+
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock || !("url" in network.config)) {
+      throw new Error(
+        `Network ${network.name} is not a local node; task:decryption-oracle only runs with --network localhost`,
+      );
+    }
+
+    const url = (network.config as HttpNetworkConfig).url;
+    console.log(`Fulfilling decryption requests on ${url}`);
+    await runDecryptionOracle(url, () => false);
+  },
+);
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:check-local
+ *   - npm run check:local
+ */
+task("task:check-local", "Stakes and reveals the TVL on a local node, waiting for task:decryption-oracle")
+  .addOptionalParam("address", "Optionally specify the NightStaking contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error(`task:check-local only runs with --network localhost`);
+    }
+
+    const stakingAddress = taskArguments.address ?? (await deployments.get("NightStaking")).address;
+    const [signer] = await ethers.getSigners();
+    const pool = await ethers.getContractAt("NightStaking", stakingAddress, signer);
+    const stakingToken = await ethers.getContractAt("ERC7984Test", await pool.stakingToken(), signer);
+
+    // Like the app: encrypt and user-decrypt through the node's relayer methods, sign in the wallet.
+    const client = new NightVaultClient(
+      { pool, stakingToken, faucet: stakingToken },
+      createRelayerAdapter(fhevm, signer),
+      signer.address,
+    );
+
+    const amount = ethers.parseUnits("1", await stakingToken.decimals());
+    // The faucet has a cooldown, so only mint on a fresh node.
+    if ((await client.getBalance()) < amount) {
+      await (await client.mint()).wait();
+    }
+    await (await client.stake(amount)).wait();
+    const position = await client.getPosition();
+    if (position.principal < amount) {
+      throw new Error(`Staked ${amount} but the relayer decrypted a principal of ${position.principal}`);
+    }
+    console.log(`Staked and decrypted through the node's relayer methods: principal ${position.principal}`);
+
+    const receipt = await (await client.requestTvlReveal()).wait();
+    if (!receipt) {
+      throw new Error("The TVL reveal request was not mined");
+    }
+    const requestedAt = (await receipt.getBlock()).timestamp;
+
+    const deadline = Date.now() + REVEAL_TIMEOUT_MS;
+    while (Number(await pool.tvlRevealedAt()) < requestedAt) {
+      if (Date.now() > deadline) {
+        throw new Error(
+          `The TVL was not revealed within ${REVEAL_TIMEOUT_MS / 1000}s; is task:decryption-oracle running?`,
+        );
+      }
+      await sleep(ORACLE_POLL_INTERVAL_MS);
+    }
+
+    const tvl = await pool.revealedTvl();
+    if (tvl < position.principal) {
+      throw new Error(`Revealed TVL ${tvl} is below the principal staked by this check (${position.principal})`);
+    }
+    console.log(`The decryption oracle revealed the TVL: ${tvl}`);
+  });
+
+async function waitForRpc(url: string, timeoutMs: number) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      await rpc(url, "eth_chainId");
+      return;
+    } catch {
+      // Not listening yet.
+    }
+    await sleep(1_000);
+  }
+  throw new Error(`No node answered at ${url} within ${timeoutMs / 1000}s`);
+}
+
+function exitOf(child: ChildProcess): Promise<number> {
+  return new Promise((resolve) => child.on("exit", (code) => resolve(code ?? 1)));
+}
+
+/**
+ * Example:
+ *   - npx hardhat task:dev-local
+ *   - npm run dev:local
+ *   - npm run check:local
+ */
+task("task:dev-local", "Starts a local node, deploys, fulfils decryption requests and runs the app's dev server")
+  .addFlag("check", "Run task:check-local instead of the dev server, then stop")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const root = hre.config.paths.root;
+    const hardhatCli = require.resolve("hardhat/internal/cli/cli");
+    const configArgs = hre.hardhatArguments.config ? ["--config", hre.hardhatArguments.config] : [];
+    const children: ChildProcess[] = [];
+
+    const start = (command: string, args: string[], cwd = root) => {
+      const child = spawn(command, args, { cwd, stdio: "inherit", shell: process.platform === "win32" });
+      children.push(child);
+      return child;
+    };
+    const hardhat = (...args: string[]) => start(process.execPath, [hardhatCli, ...configArgs, ...args]);
+    let stopped = false;
+    let interrupted = false;
+    const stopAll = () => {
+      stopped = true;
+      for (const child of children) {
+        if (child.exitCode === null) {
+          child.kill();
+        }
+      }
+    };
+    const interrupt = () => {
+      interrupted = true;
+      stopAll();
+    };
+    process.on("SIGINT", interrupt);
+    process.on("SIGTERM", interrupt);
+
+    let oracle: Promise<void> | undefined;
+    try {
+      const node = hardhat("node", "--network", "hardhat", "--no-deploy");
+      await Promise.race([
+        waitForRpc(LOCAL_RPC_URL, NODE_START_TIMEOUT_MS),
+        exitOf(node).then((code) => Promise.reject(new Error(`hardhat node exited with code ${code}`))),
+      ]);
+
+      const deployCode = await exitOf(hardhat("--network", "localhost", "deploy"));
+      if (deployCode !== 0) {
+        throw new Error(`Deployment to localhost failed with code ${deployCode}`);
+      }
+
+      oracle = runDecryptionOracle(LOCAL_RPC_URL, () => stopped);
+
+      if (taskArguments.check) {
+        const checkCode = await exitOf(hardhat("--network", "localhost", "task:check-local"));
+        if (checkCode !== 0) {
+          throw new Error(`task:check-local failed with code ${checkCode}`);
+        }
+        return;
+      }
+
+      const app = start("npm", ["run", "dev"], path.join(root, "app"));
+
+      // Everything runs until one process stops, usually because of Ctrl+C.
+      const code = await Promise.race([exitOf(node), exitOf(app)]);
+      if (code !== 0 && !interrupted) {
+        throw new Error(`A local dev process exited with code ${code}`);
+      }
+    } finally {
+      stopAll();
+      await oracle;
+    }
+  });
@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import type { ConfidentialWrapper, ERC20Test } from "../types";
+
+describe("ConfidentialWrapper", function () {
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let underlying: ERC20Test;
+  let wrapper: ConfidentialWrapper;
+
+  // ERC20Test has 18 decimals and the wrapper 6, so one wrapped unit is worth 10^12 underlying units.
+  const RATE = 10n ** 12n;
+  const WRAP_AMOUNT = 40n * 10n ** 18n;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const signers = await ethers.getSigners();
+    [alice, bob] = [signers[1], signers[2]];
+
+    const erc20Factory = await ethers.getContractFactory("ERC20Test", signers[0]);
+    underlying = (await erc20Factory.deploy()) as ERC20Test;
+    await underlying.waitForDeployment();
+
+    const wrapperFactory = await ethers.getContractFactory("ConfidentialWrapper", signers[0]);
+    wrapper = (await wrapperFactory.deploy(
+      await underlying.getAddress(),
+      "Confidential Test Token",
+      "cTEST",
+    )) as ConfidentialWrapper;
+    await wrapper.waitForDeployment();
+
+    await underlying.connect(alice).mintFree();
+    await underlying.connect(alice).approve(await wrapper.getAddress(), ethers.MaxUint256);
+  });
+
+  async function decryptBalance(account: HardhatEthersSigner) {
+    const balance = await wrapper.confidentialBalanceOf(await account.getAddress());
+    if (balance === ethers.ZeroHash) {
+      return 0n;
+    }
+    return BigInt(await fhevm.userDecryptEuint(FhevmType.euint64, balance, await wrapper.getAddress(), account));
+  }
+
+  async function unwrap(account: HardhatEthersSigner, to: string, amount: bigint) {
+    const encrypted = await fhevm
+      .createEncryptedInput(await wrapper.getAddress(), await account.getAddress())
+      .add64(amount)
+      .encrypt();
+
+    const unwrapFn = wrapper.connect(account)["unwrap(address,address,bytes32,bytes)"];
+    await unwrapFn(await account.getAddress(), to, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  it("mints the wrapped amount at the decimal rate", async function () {
+    expect(await wrapper.decimals()).to.equal(6n);
+    expect(await wrapper.rate()).to.equal(RATE);
+
+    await wrapper.connect(alice).wrap(await alice.getAddress(), WRAP_AMOUNT);
+
+    expect(await decryptBalance(alice)).to.equal(WRAP_AMOUNT / RATE);
+    expect(await underlying.balanceOf(await wrapper.getAddress())).to.equal(WRAP_AMOUNT);
+  });
+
+  it("releases the underlying only after the oracle reports the burnt amount", async function () {
+    await wrapper.connect(alice).wrap(await alice.getAddress(), WRAP_AMOUNT);
+    const before = await underlying.balanceOf(await bob.getAddress());
+
+    await unwrap(alice, await bob.getAddress(), 15n * 1_000_000n);
+    expect(await decryptBalance(alice)).to.equal(25n * 1_000_000n);
+    expect(await underlying.balanceOf(await bob.getAddress())).to.equal(before);
+
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await underlying.balanceOf(await bob.getAddress())).to.equal(before + 15n * RATE * 1_000_000n);
+    expect(await underlying.balanceOf(await wrapper.getAddress())).to.equal(25n * RATE * 1_000_000n);
+  });
+
+  it("releases nothing when the unwrap exceeds the encrypted balance", async function () {
+    await wrapper.connect(alice).wrap(await alice.getAddress(), WRAP_AMOUNT);
+    const before = await underlying.balanceOf(await alice.getAddress());
+
+    await unwrap(alice, await alice.getAddress(), 50n * 1_000_000n);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await decryptBalance(alice)).to.equal(WRAP_AMOUNT / RATE);
+    expect(await underlying.balanceOf(await alice.getAddress())).to.equal(before);
+  });
+});
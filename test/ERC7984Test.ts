@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import type { ERC7984Test } from "../types";
+
+describe("ERC7984Test faucet", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let token: ERC7984Test;
+
+  const MINT_AMOUNT = 100n * 1_000_000n;
+  const DAY = 86400;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const signers = await ethers.getSigners();
+    [deployer, alice] = [signers[0], signers[1]];
+
+    const tokenFactory = await ethers.getContractFactory("ERC7984Test", deployer);
+    token = (await tokenFactory.deploy()) as ERC7984Test;
+    await token.waitForDeployment();
+  });
+
+  async function decryptBalance(account: HardhatEthersSigner) {
+    const balance = await token.confidentialBalanceOf(await account.getAddress());
+    return BigInt(await fhevm.userDecryptEuint(FhevmType.euint64, balance, await token.getAddress(), account));
+  }
+
+  async function advance(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  it("enforces a per-address cooldown between mints", async function () {
+    expect(await token.nextMintAt(await alice.getAddress())).to.equal(0n);
+    await token.connect(alice).mintFree();
+
+    const nextMintAt = await token.nextMintAt(await alice.getAddress());
+    const latestBlock = await ethers.provider.getBlock("latest");
+    expect(nextMintAt).to.equal(BigInt(latestBlock!.timestamp + DAY));
+
+    await expect(token.connect(alice).mintFree())
+      .to.be.revertedWithCustomError(token, "MintCooldown")
+      .withArgs(nextMintAt);
+    // The cooldown is per address.
+    await token.connect(deployer).mintFree();
+
+    await advance(DAY);
+    await token.connect(alice).mintFree();
+
+    expect(await decryptBalance(alice)).to.equal(2n * MINT_AMOUNT);
+    expect(await token.mintedBy(await alice.getAddress())).to.equal(2n * MINT_AMOUNT);
+    expect(await token.totalMinted()).to.equal(3n * MINT_AMOUNT);
+  });
+
+  it("trims the last mint to the lifetime cap and then refuses", async function () {
+    await token.connect(deployer).setMintAmount(300n * 1_000_000n);
+
+    for (let i = 0; i < 3; i++) {
+      await token.connect(alice).mintFree();
+      await advance(DAY);
+    }
+    expect(await token.mintAllowance(await alice.getAddress())).to.equal(100n * 1_000_000n);
+    await token.connect(alice).mintFree();
+    await advance(DAY);
+
+    const cap = await token.MINT_CAP();
+    expect(await token.mintAllowance(await alice.getAddress())).to.equal(0n);
+    await expect(token.connect(alice).mintFree()).to.be.revertedWithCustomError(token, "MintCapReached").withArgs(cap);
+    expect(await decryptBalance(alice)).to.equal(cap);
+    expect(await token.totalMinted()).to.equal(cap);
+  });
+
+  it("lets only the owner change the mint amount within bounds", async function () {
+    await expect(token.connect(alice).setMintAmount(1n)).to.be.revertedWithCustomError(
+      token,
+      "OwnableUnauthorizedAccount",
+    );
+    await expect(token.connect(deployer).setMintAmount(0n)).to.be.revertedWithCustomError(token, "InvalidMintAmount");
+    await expect(token.connect(deployer).setMintAmount((await token.MINT_CAP()) + 1n)).to.be.revertedWithCustomError(
+      token,
+      "InvalidMintAmount",
+    );
+
+    await expect(token.connect(deployer).setMintAmount(25n * 1_000_000n))
+      .to.emit(token, "MintAmountUpdated")
+      .withArgs(25n * 1_000_000n);
+    await token.connect(alice).mintFree();
+    expect(await decryptBalance(alice)).to.equal(25n * 1_000_000n);
+  });
+});
@@ -0,0 +1,1521 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { NightVaultClient } from "../sdk/src";
+import { createHardhatAdapter } from "../sdk/src/hardhat";
+import type { ERC7984Test, NightStaking, NightStakingFactory } from "../types";
+
+describe("NightStaking", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let token: ERC7984Test;
+  let staking: NightStaking;
+
+  const INITIAL_MINT = 100n * 1_000_000n;
+  const STAKE_AMOUNT = 50n * 1_000_000n;
+  const DAY = 86400;
+  const MAX_OPERATOR_UNTIL = (1n << 48n) - 1n;
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    [deployer, alice, bob] = [signers[0], signers[1], signers[2]];
+
+    const tokenFactory = await ethers.getContractFactory("ERC7984Test", deployer);
+    token = (await tokenFactory.deploy()) as ERC7984Test;
+    await token.waitForDeployment();
+
+    // Pools link the reward math library, which the factory's embedded implementation needs too.
+    const rewardsLibrary = await (await ethers.getContractFactory("NightStakingRewards", deployer)).deploy();
+    const factoryFactory = await ethers.getContractFactory("NightStakingFactory", {
+      signer: deployer,
+      libraries: { NightStakingRewards: await rewardsLibrary.getAddress() },
+    });
+    const factory = (await factoryFactory.deploy()) as NightStakingFactory;
+    await factory.waitForDeployment();
+
+    await factory.createPool(await token.getAddress(), await token.getAddress(), 100);
+    const { pool } = await factory.getPool(0);
+    staking = await ethers.getContractAt("NightStaking", pool);
+
+    for (const account of [deployer, alice, bob]) {
+      await token.connect(account).mintFree();
+      await token.connect(account).setOperator(await staking.getAddress(), MAX_OPERATOR_UNTIL);
+    }
+  });
+
+  function clientFor(account: HardhatEthersSigner) {
+    return new NightVaultClient(
+      { pool: staking.connect(account), stakingToken: token.connect(account) },
+      createHardhatAdapter(fhevm, account),
+      account.address,
+    );
+  }
+
+  async function decryptStake(account: HardhatEthersSigner) {
+    const { principal, rewards } = await clientFor(account).getPosition();
+    return { principal, rewards: rewards[0].amount, lastAccrued: rewards[0].lastAccrued };
+  }
+
+  async function stakeAmount(account: HardhatEthersSigner, amount: bigint) {
+    await clientFor(account).stake(amount, { viaOperator: true });
+  }
+
+  async function unstakeAmount(account: HardhatEthersSigner, amount: bigint) {
+    return clientFor(account).unstake(amount);
+  }
+
+  async function fundRewards(amount: bigint) {
+    const encrypted = await fhevm
+      .createEncryptedInput(await staking.getAddress(), await deployer.getAddress())
+      .add64(amount)
+      .encrypt();
+
+    await staking.connect(deployer).fundRewards(encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function stakeLocked(account: HardhatEthersSigner, tier: number, amount: bigint) {
+    const encrypted = await fhevm
+      .createEncryptedInput(await staking.getAddress(), await account.getAddress())
+      .add64(amount)
+      .encrypt();
+
+    return staking.connect(account).stakeLocked(tier, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function encryptFor(account: HardhatEthersSigner, amount: bigint) {
+    return fhevm
+      .createEncryptedInput(await staking.getAddress(), await account.getAddress())
+      .add64(amount)
+      .encrypt();
+  }
+
+  async function decryptBalance(account: HardhatEthersSigner) {
+    return clientFor(account).getBalance();
+  }
+
+  it("stakes encrypted amounts and updates principal", async function () {
+    const initialBalance = await decryptBalance(alice);
+    expect(initialBalance).to.equal(INITIAL_MINT);
+
+    await stakeAmount(alice, STAKE_AMOUNT);
+
+    const { principal, rewards } = await decryptStake(alice);
+    expect(principal).to.equal(STAKE_AMOUNT);
+    expect(rewards).to.equal(0n);
+
+    const balanceAfter = await decryptBalance(alice);
+    expect(balanceAfter).to.equal(INITIAL_MINT - STAKE_AMOUNT);
+  });
+
+  it("accrues rewards over full days and allows claiming", async function () {
+    await fundRewards(10n * 1_000_000n);
+    await stakeAmount(alice, STAKE_AMOUNT);
+
+    await ethers.provider.send("evm_increaseTime", [DAY]);
+    await ethers.provider.send("evm_mine", []);
+
+    const balanceBefore = await decryptBalance(alice);
+    await expect(staking.connect(alice).claimRewards()).to.emit(staking, "RewardsClaimed");
+
+    const balanceAfter = await decryptBalance(alice);
+    expect(balanceAfter - balanceBefore).to.equal(STAKE_AMOUNT / 100n);
+
+    const { rewards } = await decryptStake(alice);
+    expect(rewards).to.equal(0n);
+
+    expect(await clientFor(alice).lastClaimResult()).to.equal(true);
+
+    await expect(staking.connect(bob).claimRewards()).to.be.revertedWithCustomError(staking, "NoRewards");
+  });
+
+  it("supports partial unstake and keeps remaining balance", async function () {
+    await stakeAmount(alice, STAKE_AMOUNT);
+
+    const withdrawAmount = 20n * 1_000_000n;
+    const encrypted = await fhevm
+      .createEncryptedInput(await staking.getAddress(), await alice.getAddress())
+      .add64(withdrawAmount)
+      .encrypt();
+
+    await staking.connect(alice).unstake(encrypted.handles[0], encrypted.inputProof);
+
+    const { principal } = await decryptStake(alice);
+    expect(principal).to.equal(STAKE_AMOUNT - withdrawAmount);
+
+    const balanceAfter = await decryptBalance(alice);
+    expect(balanceAfter).to.equal(INITIAL_MINT - (STAKE_AMOUNT - withdrawAmount));
+  });
+
+  it("records how much each stake and unstake actually moved", async function () {
+    const decryptMoved = async (handle: string) =>
+      BigInt(await fhevm.userDecryptEuint(FhevmType.euint64, handle, await staking.getAddress(), alice));
+
+    await stakeAmount(alice, STAKE_AMOUNT);
+    expect(await decryptMoved(await staking.getLastStakeResult(await alice.getAddress()))).to.equal(STAKE_AMOUNT);
+
+    // More than the wallet holds: the confidential transfer silently moves nothing.
+    await stakeAmount(alice, INITIAL_MINT);
+    expect(await decryptMoved(await staking.getLastStakeResult(await alice.getAddress()))).to.equal(0n);
+
+    // More than the principal: tryDecrease fails and nothing is withdrawn.
+    await unstakeAmount(alice, STAKE_AMOUNT + 1n);
+    expect(await decryptMoved(await staking.getLastUnstakeResult(await alice.getAddress()))).to.equal(0n);
+    expect((await decryptStake(alice)).principal).to.equal(STAKE_AMOUNT);
+
+    await unstakeAmount(alice, STAKE_AMOUNT);
+    expect(await decryptMoved(await staking.getLastUnstakeResult(await alice.getAddress()))).to.equal(STAKE_AMOUNT);
+    expect(await decryptBalance(alice)).to.equal(INITIAL_MINT);
+  });
+
+  it("only lets the owner fund the reward reserve", async function () {
+    const encrypted = await fhevm
+      .createEncryptedInput(await staking.getAddress(), await alice.getAddress())
+      .add64(1_000_000n)
+      .encrypt();
+
+    await expect(
+      staking.connect(alice).fundRewards(encrypted.handles[0], encrypted.inputProof),
+    ).to.be.revertedWithCustomError(staking, "OwnableUnauthorizedAccount");
+  });
+
+  it("caps claims by the reward reserve and keeps the unpaid remainder owed", async function () {
+    const reserve = STAKE_AMOUNT / 500n;
+    await fundRewards(reserve);
+    await stakeAmount(alice, STAKE_AMOUNT);
+
+    await ethers.provider.send("evm_increaseTime", [DAY]);
+    await ethers.provider.send("evm_mine", []);
+
+    const balanceBefore = await decryptBalance(alice);
+    await staking.connect(alice).claimRewards();
+
+    const balanceAfter = await decryptBalance(alice);
+    expect(balanceAfter - balanceBefore).to.equal(reserve);
+
+    const { rewards } = await decryptStake(alice);
+    expect(rewards).to.equal(STAKE_AMOUNT / 100n - reserve);
+
+    expect(await clientFor(alice).lastClaimResult()).to.equal(false);
+
+    const liabilities = await clientFor(deployer).getLiabilities();
+    expect(liabilities.rewardReserve).to.equal(0n);
+    expect(liabilities.totalRewards).to.equal(STAKE_AMOUNT / 100n - reserve);
+    expect(liabilities.totalPrincipal).to.equal(STAKE_AMOUNT);
+  });
+
+  it("always returns principal in full even when rewards are unfunded", async function () {
+    await stakeAmount(alice, STAKE_AMOUNT);
+    await stakeAmount(bob, STAKE_AMOUNT);
+
+    await ethers.provider.send("evm_increaseTime", [3 * DAY]);
+    await ethers.provider.send("evm_mine", []);
+
+    await staking.connect(alice).claimRewards();
+    await staking.connect(bob).claimRewards();
+
+    await unstakeAmount(alice, STAKE_AMOUNT);
+    await unstakeAmount(bob, STAKE_AMOUNT);
+
+    expect(await decryptBalance(alice)).to.equal(INITIAL_MINT);
+    expect(await decryptBalance(bob)).to.equal(INITIAL_MINT);
+
+    const liabilities = await clientFor(deployer).getLiabilities();
+    expect(liabilities.totalPrincipal).to.equal(0n);
+    expect(liabilities.totalRewards).to.equal((2n * 3n * STAKE_AMOUNT) / 100n);
+    expect(liabilities.rewardReserve).to.equal(0n);
+  });
+
+  it("pays rewards from the reserve without touching other stakers' principal", async function () {
+    const reserve = 10n * 1_000_000n;
+    await fundRewards(reserve);
+    await stakeAmount(alice, STAKE_AMOUNT);
+    await stakeAmount(bob, STAKE_AMOUNT);
+
+    await ethers.provider.send("evm_increaseTime", [2 * DAY]);
+    await ethers.provider.send("evm_mine", []);
+
+    await staking.connect(alice).claimRewards();
+    await unstakeAmount(alice, STAKE_AMOUNT);
+    await unstakeAmount(bob, STAKE_AMOUNT);
+
+    const aliceRewards = (2n * STAKE_AMOUNT) / 100n;
+    expect(await decryptBalance(alice)).to.equal(INITIAL_MINT + aliceRewards);
+    expect(await decryptBalance(bob)).to.equal(INITIAL_MINT);
+
+    const liabilities = await clientFor(deployer).getLiabilities();
+    expect(liabilities.totalPrincipal).to.equal(0n);
+    expect(liabilities.rewardReserve).to.equal(reserve - aliceRewards);
+  });
+
+  async function setNextTimestamp(timestamp: number) {
+    await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+  }
+
+  it("exposes the default reward rate and its checkpoint history", async function () {
+    expect(await staking.RATE_DIVISOR()).to.equal(10_000n);
+    expect(await staking.currentRewardRate()).to.equal(100n);
+
+    const checkpoints = await staking.getRateCheckpoints();
+    expect(checkpoints.length).to.equal(1);
+    expect(checkpoints[0].dailyRate).to.equal(100n);
+  });
+
+  it("lets only the owner update the reward rate within bounds", async function () {
+    await expect(staking.connect(alice).setRewardRate(200)).to.be.revertedWithCustomError(
+      staking,
+      "OwnableUnauthorizedAccount",
+    );
+    await expect(staking.connect(deployer).setRewardRate(10_001))
+      .to.be.revertedWithCustomError(staking, "InvalidRewardRate")
+      .withArgs(10_001);
+
+    const tx = await staking.connect(deployer).setRewardRate(250);
+    const block = await ethers.provider.getBlock((await tx.wait())!.blockNumber);
+    await expect(tx).to.emit(staking, "RewardRateUpdated").withArgs(100, 250, block!.timestamp);
+
+    expect(await staking.currentRewardRate()).to.equal(250n);
+    expect(await staking.rewardRateAt(block!.timestamp - 1)).to.equal(100n);
+    expect(await staking.rewardRateAt(block!.timestamp)).to.equal(250n);
+    expect((await staking.getRateCheckpoints()).length).to.equal(2);
+  });
+
+  it("keeps accruing past periods at the rate that applied to them", async function () {
+    await fundRewards(10n * 1_000_000n);
+
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+    await setNextTimestamp(start);
+    await stakeAmount(alice, STAKE_AMOUNT);
+
+    // Two days at 1%, then a day and a half at 3% before the next interaction.
+    await setNextTimestamp(start + 2 * DAY);
+    await staking.connect(deployer).setRewardRate(300);
+
+    await setNextTimestamp(start + 3 * DAY + DAY / 2);
+    await staking.connect(alice).claimRewards();
+
+    // Only the completed third day is credited; the trailing half day stays pending.
+    const expected = (STAKE_AMOUNT * (2n * 100n + 300n)) / 10_000n;
+    const { rewards, lastAccrued } = await decryptStake(alice);
+    expect(rewards).to.equal(0n);
+    expect(lastAccrued).to.equal(BigInt(start + 3 * DAY));
+    expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT + expected);
+  });
+
+  it("weights a partial day by the time spent at each rate", async function () {
+    await fundRewards(10n * 1_000_000n);
+
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+    await setNextTimestamp(start);
+    await stakeAmount(alice, STAKE_AMOUNT);
+
+    await setNextTimestamp(start + DAY / 4);
+    await staking.connect(deployer).setRewardRate(500);
+
+    await setNextTimestamp(start + DAY);
+    await staking.connect(alice).claimRewards();
+
+    // A quarter day at 1% and three quarters at 5%: 25 + 375 = 400 basis points.
+    const expected = (STAKE_AMOUNT * 400n) / 10_000n;
+    expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT + expected);
+  });
+
+  describe("per-second accrual", function () {
+    const PER_SECOND = 1;
+
+    beforeEach(async function () {
+      await staking.connect(deployer).setAccrualMode(PER_SECOND);
+    });
+
+    it("lets only the owner switch the accrual mode", async function () {
+      await expect(staking.connect(alice).setAccrualMode(0)).to.be.revertedWithCustomError(
+        staking,
+        "OwnableUnauthorizedAccount",
+      );
+      expect(await staking.accrualMode()).to.equal(BigInt(PER_SECOND));
+    });
+
+    it("credits a partial day pro rata", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await setNextTimestamp(start + DAY / 2 - 1);
+      await stakeAmount(alice, 0n);
+
+      const { rewards, lastAccrued } = await decryptStake(alice);
+      expect(lastAccrued).to.equal(BigInt(start + DAY / 2 - 1));
+      expect(rewards).to.equal((STAKE_AMOUNT * 100n * BigInt(DAY / 2 - 1)) / (10_000n * BigInt(DAY)));
+    });
+
+    it("keeps the same effective daily rate as whole-day accrual", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await setNextTimestamp(start + DAY);
+      await stakeAmount(alice, 0n);
+
+      const { rewards } = await decryptStake(alice);
+      expect(rewards).to.equal(STAKE_AMOUNT / 100n);
+    });
+
+    it("matches a single accrual when interacting repeatedly at odd intervals", async function () {
+      const principal = 33_333_337n;
+      const offsets = [1, 7_201, 13_337, 40_000, 86_399, 90_001, 172_805];
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, principal);
+
+      for (const offset of offsets) {
+        await setNextTimestamp(start + offset);
+        await stakeAmount(alice, 0n);
+      }
+
+      const elapsed = BigInt(offsets[offsets.length - 1]);
+      const { rewards } = await decryptStake(alice);
+      expect(rewards).to.equal((principal * 100n * elapsed) / (10_000n * BigInt(DAY)));
+    });
+
+    it("carries sub-unit remainders instead of rounding them away", async function () {
+      // 7 units at 1% a day earn 0.07 units per day; nothing would ever be credited without the carry.
+      const principal = 7n;
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, principal);
+
+      for (let day = 1; day <= 15; day++) {
+        await setNextTimestamp(start + day * DAY);
+        await stakeAmount(alice, 0n);
+      }
+
+      const { rewards } = await decryptStake(alice);
+      expect(rewards).to.equal(1n);
+    });
+  });
+
+  describe("compounding", function () {
+    it("restakes accrued rewards into principal on demand", async function () {
+      await fundRewards(10n * 1_000_000n);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(staking.connect(alice).compound()).to.emit(staking, "Compounded");
+
+      const { principal, rewards } = await decryptStake(alice);
+      expect(principal).to.equal(STAKE_AMOUNT + STAKE_AMOUNT / 100n);
+      expect(rewards).to.equal(0n);
+
+      const liabilities = await clientFor(deployer).getLiabilities();
+      expect(liabilities.totalPrincipal).to.equal(STAKE_AMOUNT + STAKE_AMOUNT / 100n);
+      expect(liabilities.totalRewards).to.equal(0n);
+      expect(liabilities.rewardReserve).to.equal(10n * 1_000_000n - STAKE_AMOUNT / 100n);
+
+      await expect(staking.connect(bob).compound()).to.be.revertedWithCustomError(staking, "NoRewards");
+    });
+
+    it("only restakes what the reserve can back", async function () {
+      const reserve = STAKE_AMOUNT / 400n;
+      await fundRewards(reserve);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await staking.connect(alice).compound();
+
+      const { principal, rewards } = await decryptStake(alice);
+      expect(principal).to.equal(STAKE_AMOUNT + reserve);
+      expect(rewards).to.equal(STAKE_AMOUNT / 100n - reserve);
+    });
+
+    it("compounds automatically on every interaction once enabled", async function () {
+      await fundRewards(10n * 1_000_000n);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await expect(staking.connect(alice).setAutoCompound(true))
+        .to.emit(staking, "AutoCompoundSet")
+        .withArgs(await alice.getAddress(), true);
+      expect(await staking.isAutoCompounding(await alice.getAddress())).to.equal(true);
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp;
+      await setNextTimestamp(start + DAY);
+      await stakeAmount(alice, 0n);
+      await setNextTimestamp(start + 2 * DAY);
+      await stakeAmount(alice, 0n);
+
+      const afterFirstDay = STAKE_AMOUNT + STAKE_AMOUNT / 100n;
+      const afterSecondDay = afterFirstDay + afterFirstDay / 100n;
+
+      const { principal, rewards } = await decryptStake(alice);
+      expect(principal).to.equal(afterSecondDay);
+      expect(rewards).to.equal(0n);
+
+      // Compounded principal is backed by reserve tokens and can be withdrawn in full.
+      await unstakeAmount(alice, afterSecondDay);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT + afterSecondDay);
+    });
+  });
+
+  describe("lock-up positions", function () {
+    const FLEXIBLE = 0;
+    const DAYS_7 = 1;
+    const DAYS_30 = 2;
+    const DAYS_90 = 3;
+
+    it("exposes a duration and reward boost per tier", async function () {
+      expect(await staking.getLockTier(FLEXIBLE)).to.deep.equal([0n, 10_000n]);
+      expect(await staking.getLockTier(DAYS_7)).to.deep.equal([BigInt(7 * DAY), 11_000n]);
+      expect(await staking.getLockTier(DAYS_30)).to.deep.equal([BigInt(30 * DAY), 12_500n]);
+      expect(await staking.getLockTier(DAYS_90)).to.deep.equal([BigInt(90 * DAY), 15_000n]);
+    });
+
+    it("opens separately tracked positions alongside the flexible stake", async function () {
+      await stakeAmount(alice, 10n * 1_000_000n);
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await expect(stakeLocked(alice, DAYS_7, 15n * 1_000_000n))
+        .to.emit(staking, "PositionOpened")
+        .withArgs(await alice.getAddress(), 1n, DAYS_7, BigInt(start + 7 * DAY));
+      await stakeLocked(alice, DAYS_90, 20n * 1_000_000n);
+      await stakeLocked(bob, DAYS_30, 5n * 1_000_000n);
+
+      expect(await staking.getPositionIds(await alice.getAddress())).to.deep.equal([1n, 2n]);
+      expect(await staking.getPositionIds(await bob.getAddress())).to.deep.equal([3n]);
+
+      const first = await clientFor(alice).getPosition(1n);
+      expect(first.owner).to.equal(await alice.getAddress());
+      expect(first.tier).to.equal(DAYS_7);
+      expect(first.unlockTime).to.equal(BigInt(start + 7 * DAY));
+      expect(first.principal).to.equal(15n * 1_000_000n);
+
+      expect((await clientFor(alice).getPosition(2n)).principal).to.equal(20n * 1_000_000n);
+      expect((await decryptStake(alice)).principal).to.equal(10n * 1_000_000n);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - 45n * 1_000_000n);
+
+      await expect(staking.getPosition(4n)).to.be.revertedWithCustomError(staking, "UnknownPosition");
+      await expect(stakeLocked(alice, FLEXIBLE, 1n)).to.be.revertedWithCustomError(staking, "InvalidLockTier");
+    });
+
+    it("rejects unstaking a locked position before it unlocks", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeLocked(alice, DAYS_7, STAKE_AMOUNT);
+
+      const early = await encryptFor(alice, STAKE_AMOUNT);
+      await setNextTimestamp(start + 7 * DAY - 1);
+      await expect(staking.connect(alice).unstakePosition(1n, early.handles[0], early.inputProof))
+        .to.be.revertedWithCustomError(staking, "PositionLocked")
+        .withArgs(1n, BigInt(start + 7 * DAY));
+
+      const onTime = await encryptFor(alice, STAKE_AMOUNT);
+      await setNextTimestamp(start + 7 * DAY);
+      await staking.connect(alice).unstakePosition(1n, onTime.handles[0], onTime.inputProof);
+
+      expect((await clientFor(alice).getPosition(1n)).principal).to.equal(0n);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT);
+    });
+
+    it("only lets the owner operate on a position", async function () {
+      await stakeLocked(alice, DAYS_7, STAKE_AMOUNT);
+
+      await ethers.provider.send("evm_increaseTime", [8 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      const encrypted = await encryptFor(bob, STAKE_AMOUNT);
+      await expect(
+        staking.connect(bob).unstakePosition(1n, encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWithCustomError(staking, "UnknownPosition");
+      await expect(staking.connect(bob).claimPositionRewards(1n)).to.be.revertedWithCustomError(
+        staking,
+        "UnknownPosition",
+      );
+    });
+
+    it("boosts rewards by the lock tier multiplier", async function () {
+      await fundRewards(10n * 1_000_000n);
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeLocked(alice, DAYS_30, STAKE_AMOUNT);
+      await setNextTimestamp(start + 1);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await setNextTimestamp(start + 2 * DAY + 1);
+      await staking.connect(alice).claimPositionRewards(1n);
+      await setNextTimestamp(start + 2 * DAY + 2);
+      await staking.connect(alice).claimRewards();
+
+      const flexibleRewards = (2n * STAKE_AMOUNT) / 100n;
+      const boostedRewards = (flexibleRewards * 12_500n) / 10_000n;
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - 2n * STAKE_AMOUNT + flexibleRewards + boostedRewards);
+    });
+  });
+
+  describe("staking on behalf", function () {
+    async function stakeFor(funder: HardhatEthersSigner, beneficiary: string, amount: bigint) {
+      const encrypted = await encryptFor(funder, amount);
+      return staking.connect(funder).stakeFor(beneficiary, encrypted.handles[0], encrypted.inputProof);
+    }
+
+    it("credits the beneficiary from the funder's balance and keeps the stake private to the beneficiary", async function () {
+      // The funder is not the pool owner, who may decrypt the pool totals that a lone stake would equal.
+      await expect(stakeFor(bob, await alice.getAddress(), STAKE_AMOUNT))
+        .to.emit(staking, "StakedFor")
+        .withArgs(await bob.getAddress(), await alice.getAddress());
+
+      expect((await decryptStake(alice)).principal).to.equal(STAKE_AMOUNT);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT);
+      expect(await decryptBalance(bob)).to.equal(INITIAL_MINT - STAKE_AMOUNT);
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await stakeFor(bob, await alice.getAddress(), 1n);
+
+      // The token lets the funder decrypt the amount it sent, but the stake itself is the beneficiary's alone.
+      const [principal, rewards] = await staking.getStake(await alice.getAddress());
+      expect((await decryptStake(alice)).rewards).to.equal(STAKE_AMOUNT / 100n);
+      for (const handle of [principal, rewards]) {
+        let decryptError: unknown;
+        try {
+          await fhevm.userDecryptEuint(FhevmType.euint64, handle, await staking.getAddress(), bob);
+        } catch (error) {
+          decryptError = error;
+        }
+        expect(decryptError).to.not.equal(undefined);
+      }
+
+      // The beneficiary owns the stake outright, including taking it out.
+      await unstakeAmount(alice, STAKE_AMOUNT);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT + STAKE_AMOUNT);
+    });
+
+    it("reports what moved to the funder and leaves the beneficiary's last stake result alone", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await stakeFor(bob, await alice.getAddress(), 1_000_000n);
+
+      expect(await clientFor(bob).lastStakeResult()).to.equal(1_000_000n);
+      expect(await clientFor(alice).lastStakeResult()).to.equal(STAKE_AMOUNT);
+      expect((await decryptStake(alice)).principal).to.equal(STAKE_AMOUNT + 1_000_000n);
+    });
+
+    it("requires a beneficiary and the funder's operator grant", async function () {
+      await expect(stakeFor(deployer, ethers.ZeroAddress, STAKE_AMOUNT))
+        .to.be.revertedWithCustomError(staking, "InvalidRecipient")
+        .withArgs(ethers.ZeroAddress);
+
+      await token.connect(bob).setOperator(await staking.getAddress(), 0);
+      await expect(stakeFor(bob, await alice.getAddress(), STAKE_AMOUNT))
+        .to.be.revertedWithCustomError(token, "ERC7984UnauthorizedSpender")
+        .withArgs(await bob.getAddress(), await staking.getAddress());
+    });
+  });
+
+  describe("position transfers", function () {
+    const DAYS_7 = 1;
+    const DAYS_30 = 2;
+
+    it("moves a locked position with its principal, rewards and lock to the recipient", async function () {
+      await fundRewards(10n * 1_000_000n);
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeLocked(alice, DAYS_30, STAKE_AMOUNT);
+
+      await setNextTimestamp(start + 2 * DAY);
+      await expect(staking.connect(alice).transferPosition(1n, await bob.getAddress()))
+        .to.emit(staking, "PositionTransferred")
+        .withArgs(await alice.getAddress(), await bob.getAddress(), 1n, 1n);
+
+      expect(await staking.getPositionIds(await alice.getAddress())).to.deep.equal([]);
+      expect(await staking.getPositionIds(await bob.getAddress())).to.deep.equal([1n]);
+
+      // 1% a day with the 1.25x boost of the 30-day tier, over the two days alice held it.
+      const position = await clientFor(bob).getPosition(1n);
+      expect(position.owner).to.equal(await bob.getAddress());
+      expect(position.unlockTime).to.equal(BigInt(start + 30 * DAY));
+      expect(position.principal).to.equal(STAKE_AMOUNT);
+      expect(position.rewards[0].amount).to.equal((STAKE_AMOUNT * 2n * 125n) / 10_000n);
+
+      await expect(staking.connect(alice).claimPositionRewards(1n)).to.be.revertedWithCustomError(
+        staking,
+        "UnknownPosition",
+      );
+      const early = await encryptFor(bob, STAKE_AMOUNT);
+      await expect(staking.connect(bob).unstakePosition(1n, early.handles[0], early.inputProof))
+        .to.be.revertedWithCustomError(staking, "PositionLocked")
+        .withArgs(1n, BigInt(start + 30 * DAY));
+    });
+
+    it("merges the flexible stake into the recipient's and clears the sender's", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await setNextTimestamp(start + 1);
+      await stakeAmount(bob, 10n * 1_000_000n);
+
+      await setNextTimestamp(start + DAY + 1);
+      await staking.connect(alice).transferPosition(0n, await bob.getAddress());
+
+      const merged = await decryptStake(bob);
+      expect(merged.principal).to.equal(STAKE_AMOUNT + 10n * 1_000_000n);
+      expect(merged.rewards).to.equal((STAKE_AMOUNT + 10n * 1_000_000n) / 100n);
+
+      const cleared = await staking.getStake(await alice.getAddress());
+      expect(cleared.principal).to.equal(ethers.ZeroHash);
+      expect(cleared.lastAccrued).to.equal(0n);
+      expect((await clientFor(deployer).getLiabilities()).totalPrincipal).to.equal(STAKE_AMOUNT + 10n * 1_000_000n);
+
+      // The recipient can take the merged stake out like any of its own.
+      await unstakeAmount(bob, STAKE_AMOUNT + 10n * 1_000_000n);
+      expect(await decryptBalance(bob)).to.equal(INITIAL_MINT + STAKE_AMOUNT);
+    });
+
+    it("only merges into a position with the same tier that unlocks no earlier", async function () {
+      await stakeLocked(alice, DAYS_7, STAKE_AMOUNT);
+      await stakeLocked(bob, DAYS_30, 5n * 1_000_000n);
+      await stakeLocked(bob, DAYS_7, 5n * 1_000_000n);
+
+      await expect(staking.connect(alice).mergePosition(1n, await bob.getAddress(), 2n))
+        .to.be.revertedWithCustomError(staking, "IncompatiblePositions")
+        .withArgs(1n, 2n);
+      await expect(staking.connect(bob).mergePosition(3n, await alice.getAddress(), 1n))
+        .to.be.revertedWithCustomError(staking, "IncompatiblePositions")
+        .withArgs(3n, 1n);
+      await expect(staking.connect(bob).mergePosition(1n, await alice.getAddress(), 1n)).to.be.revertedWithCustomError(
+        staking,
+        "UnknownPosition",
+      );
+
+      await staking.connect(alice).mergePosition(1n, await bob.getAddress(), 3n);
+      expect((await clientFor(bob).getPosition(3n)).principal).to.equal(STAKE_AMOUNT + 5n * 1_000_000n);
+      expect(await staking.getPositionIds(await alice.getAddress())).to.deep.equal([]);
+      await expect(staking.getPosition(1n)).to.be.revertedWithCustomError(staking, "UnknownPosition");
+    });
+
+    it("keeps a merged position's share of the running epoch", async function () {
+      const EPOCH_BUDGET = 7n * 1_000_000n;
+      await staking.connect(deployer).setEpochEmission(EPOCH_BUDGET, DAY);
+      await fhevm.awaitDecryptionOracle();
+      await stakeLocked(alice, DAYS_7, STAKE_AMOUNT);
+      await stakeLocked(bob, DAYS_7, 20n * 1_000_000n);
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await staking.startEpoch();
+      await fhevm.awaitDecryptionOracle();
+      await staking.connect(alice).mergePosition(1n, await bob.getAddress(), 2n);
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await staking.startEpoch();
+      await fhevm.awaitDecryptionOracle();
+
+      // Both positions held their principal through all of epoch 2, so the merged one earns its whole budget.
+      await staking.connect(bob).setAutoCompound(false);
+      expect((await clientFor(bob).getPosition(2n)).rewards[0].amount).to.equal(EPOCH_BUDGET);
+    });
+
+    it("rejects invalid recipients and empty stakes", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await expect(staking.connect(alice).transferPosition(0n, await alice.getAddress()))
+        .to.be.revertedWithCustomError(staking, "InvalidRecipient")
+        .withArgs(await alice.getAddress());
+      await expect(staking.connect(alice).transferPosition(0n, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        staking,
+        "InvalidRecipient",
+      );
+      await expect(staking.connect(bob).transferPosition(0n, await alice.getAddress())).to.be.revertedWithCustomError(
+        staking,
+        "NothingToTransfer",
+      );
+    });
+  });
+
+  describe("transfer-and-call staking", function () {
+    async function transferAndCall(account: HardhatEthersSigner, amount: bigint, data: string) {
+      const encrypted = await fhevm
+        .createEncryptedInput(await token.getAddress(), await account.getAddress())
+        .add64(amount)
+        .encrypt();
+
+      const transferAndCallFn = token.connect(account)["confidentialTransferAndCall(address,bytes32,bytes,bytes)"];
+      return transferAndCallFn(await staking.getAddress(), encrypted.handles[0], encrypted.inputProof, data);
+    }
+
+    beforeEach(async function () {
+      // Transfer-and-call must not depend on an operator grant.
+      await token.connect(alice).setOperator(await staking.getAddress(), 0);
+      expect(await token.isOperator(await alice.getAddress(), await staking.getAddress())).to.equal(false);
+    });
+
+    it("stakes the transferred amount into the flexible position in one transaction", async function () {
+      await expect(transferAndCall(alice, STAKE_AMOUNT, "0x")).to.emit(staking, "Staked");
+
+      const { principal } = await decryptStake(alice);
+      expect(principal).to.equal(STAKE_AMOUNT);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT);
+
+      const moved = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await staking.getLastStakeResult(await alice.getAddress()),
+        await staking.getAddress(),
+        alice,
+      );
+      expect(moved).to.equal(STAKE_AMOUNT);
+    });
+
+    it("opens a locked position when the data carries a lock tier", async function () {
+      const data = ethers.AbiCoder.defaultAbiCoder().encode(["uint8"], [2]);
+      await expect(transferAndCall(alice, STAKE_AMOUNT, data)).to.emit(staking, "PositionOpened");
+
+      expect(await staking.getPositionIds(await alice.getAddress())).to.deep.equal([1n]);
+      const position = await clientFor(alice).getPosition(1n);
+      expect(position.tier).to.equal(2);
+      expect(position.principal).to.equal(STAKE_AMOUNT);
+    });
+
+    it("only accepts callbacks from the staking token", async function () {
+      await expect(
+        staking
+          .connect(alice)
+          .onConfidentialTransferReceived(await alice.getAddress(), await alice.getAddress(), ethers.ZeroHash, "0x"),
+      )
+        .to.be.revertedWithCustomError(staking, "UnsupportedToken")
+        .withArgs(await alice.getAddress());
+    });
+  });
+
+  describe("early-unstake penalty", function () {
+    const PENALTY_RATE = 500;
+    const WINDOW = 7 * DAY;
+
+    beforeEach(async function () {
+      await staking.connect(deployer).setEarlyUnstakePenalty(PENALTY_RATE, WINDOW);
+    });
+
+    it("lets only the owner set a bounded penalty", async function () {
+      expect(await staking.earlyUnstakePenaltyRate()).to.equal(BigInt(PENALTY_RATE));
+      expect(await staking.earlyUnstakeWindow()).to.equal(BigInt(WINDOW));
+      await expect(staking.connect(alice).setEarlyUnstakePenalty(0, 0)).to.be.revertedWithCustomError(
+        staking,
+        "OwnableUnauthorizedAccount",
+      );
+      await expect(staking.connect(deployer).setEarlyUnstakePenalty(2_001, WINDOW))
+        .to.be.revertedWithCustomError(staking, "InvalidPenalty")
+        .withArgs(2_001, WINDOW);
+      await expect(staking.connect(deployer).setEarlyUnstakePenalty(PENALTY_RATE, 31 * DAY))
+        .to.be.revertedWithCustomError(staking, "InvalidPenalty")
+        .withArgs(PENALTY_RATE, 31 * DAY);
+      await expect(staking.connect(deployer).setEarlyUnstakePenalty(0, 0))
+        .to.emit(staking, "EarlyUnstakePenaltyUpdated")
+        .withArgs(0, 0);
+    });
+
+    it("withholds the penalty inside the window and moves it into the reward reserve", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, STAKE_AMOUNT);
+      expect(await staking.earlyUnstakePenaltyEndsAt(await alice.getAddress(), 0n)).to.equal(BigInt(start + WINDOW));
+
+      await setNextTimestamp(start + WINDOW - 1);
+      await expect(unstakeAmount(alice, 20n * 1_000_000n)).to.emit(staking, "EarlyUnstakePenaltyCharged");
+      const penalty = (20n * 1_000_000n * BigInt(PENALTY_RATE)) / 10_000n;
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT + 20n * 1_000_000n - penalty);
+
+      const liabilities = await clientFor(deployer).getLiabilities();
+      expect(liabilities.totalPrincipal).to.equal(STAKE_AMOUNT - 20n * 1_000_000n);
+      expect(liabilities.rewardReserve).to.equal(penalty);
+
+      // Once the window has passed, principal comes back in full.
+      await setNextTimestamp(start + WINDOW);
+      await unstakeAmount(alice, 10n * 1_000_000n);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - 20n * 1_000_000n - penalty);
+    });
+
+    it("restarts the window on every deposit and charges nothing once disabled", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await setNextTimestamp(start + 5 * DAY);
+      await stakeAmount(alice, 1n * 1_000_000n);
+      expect(await staking.earlyUnstakePenaltyEndsAt(await alice.getAddress(), 0n)).to.equal(
+        BigInt(start + 5 * DAY + WINDOW),
+      );
+
+      await staking.connect(deployer).setEarlyUnstakePenalty(0, WINDOW);
+      expect(await staking.earlyUnstakePenaltyEndsAt(await alice.getAddress(), 0n)).to.equal(0n);
+      await expect(unstakeAmount(alice, STAKE_AMOUNT)).to.not.emit(staking, "EarlyUnstakePenaltyCharged");
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - 1n * 1_000_000n);
+    });
+
+    it("does not let anyone else extend the window", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, STAKE_AMOUNT);
+      const penaltyEnd = BigInt(start + WINDOW);
+
+      await setNextTimestamp(start + 5 * DAY);
+      const zero = await encryptFor(bob, 0n);
+      await staking.connect(bob).stakeFor(await alice.getAddress(), zero.handles[0], zero.inputProof);
+      expect(await staking.earlyUnstakePenaltyEndsAt(await alice.getAddress(), 0n)).to.equal(penaltyEnd);
+
+      await setNextTimestamp(start + 6 * DAY);
+      await stakeAmount(bob, 1n * 1_000_000n);
+      await staking.connect(bob).transferPosition(0n, await alice.getAddress());
+      expect(await staking.earlyUnstakePenaltyEndsAt(await alice.getAddress(), 0n)).to.equal(penaltyEnd);
+
+      // Alice's principal, and what was given to her, comes back in full once her own window has passed.
+      await setNextTimestamp(start + WINDOW);
+      await expect(unstakeAmount(alice, STAKE_AMOUNT + 1n * 1_000_000n)).to.not.emit(
+        staking,
+        "EarlyUnstakePenaltyCharged",
+      );
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT + 1n * 1_000_000n);
+    });
+  });
+
+  describe("withdrawal cooldown", function () {
+    const UNBONDING = 3 * DAY;
+
+    beforeEach(async function () {
+      await staking.connect(deployer).setUnbondingPeriod(UNBONDING);
+    });
+
+    it("lets only the owner set a bounded unbonding period", async function () {
+      expect(await staking.unbondingPeriod()).to.equal(BigInt(UNBONDING));
+      await expect(staking.connect(alice).setUnbondingPeriod(DAY)).to.be.revertedWithCustomError(
+        staking,
+        "OwnableUnauthorizedAccount",
+      );
+      await expect(staking.connect(deployer).setUnbondingPeriod(31 * DAY))
+        .to.be.revertedWithCustomError(staking, "InvalidUnbondingPeriod")
+        .withArgs(31 * DAY);
+    });
+
+    it("queues unstaked principal until it matures and pays no rewards on it", async function () {
+      await fundRewards(10n * 1_000_000n);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await expect(unstakeAmount(alice, STAKE_AMOUNT / 2n))
+        .to.emit(staking, "Unstaked")
+        .and.to.emit(staking, "WithdrawalRequested");
+
+      expect(await staking.getPendingWithdrawalIds(await alice.getAddress())).to.deep.equal([1n]);
+      const [pending] = await clientFor(alice).getPendingWithdrawals();
+      expect(pending.amount).to.equal(STAKE_AMOUNT / 2n);
+      expect(pending.maturity).to.equal(BigInt(start + UNBONDING));
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT);
+
+      await expect(staking.connect(alice).withdraw()).to.be.revertedWithCustomError(staking, "NothingToWithdraw");
+
+      await setNextTimestamp(start + UNBONDING);
+      await expect(staking.connect(alice).withdraw()).to.emit(staking, "Withdrawn");
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT / 2n);
+      expect(await staking.getPendingWithdrawalIds(await alice.getAddress())).to.deep.equal([]);
+
+      // Only the half that stayed staked earned rewards over the three days.
+      await staking.connect(alice).claimRewards();
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT / 2n + (3n * STAKE_AMOUNT) / 200n);
+      expect((await clientFor(deployer).getLiabilities()).totalPrincipal).to.equal(STAKE_AMOUNT / 2n);
+    });
+
+    it("puts a cancelled withdrawal back into the stake", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await unstakeAmount(alice, STAKE_AMOUNT);
+      expect((await decryptStake(alice)).principal).to.equal(0n);
+
+      await expect(staking.connect(bob).cancelWithdrawal(1n))
+        .to.be.revertedWithCustomError(staking, "UnknownWithdrawal")
+        .withArgs(1n);
+      await expect(staking.connect(alice).cancelWithdrawal(1n)).to.emit(staking, "WithdrawalCancelled");
+
+      expect((await decryptStake(alice)).principal).to.equal(STAKE_AMOUNT);
+      expect(await staking.getPendingWithdrawalIds(await alice.getAddress())).to.deep.equal([]);
+      await expect(staking.getPendingWithdrawal(1n)).to.be.revertedWithCustomError(staking, "UnknownWithdrawal");
+    });
+
+    it("puts a cancelled withdrawal into the flexible stake once its position has moved away", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      const DAYS_7 = 1;
+      await stakeLocked(alice, DAYS_7, STAKE_AMOUNT);
+
+      await setNextTimestamp(start + 7 * DAY);
+      const encrypted = await encryptFor(alice, STAKE_AMOUNT / 2n);
+      await staking.connect(alice).unstakePosition(1n, encrypted.handles[0], encrypted.inputProof);
+      await staking.connect(alice).transferPosition(1n, await bob.getAddress());
+
+      await expect(staking.connect(alice).cancelWithdrawal(1n)).to.emit(staking, "WithdrawalCancelled");
+      expect((await decryptStake(alice)).principal).to.equal(STAKE_AMOUNT / 2n);
+      expect((await clientFor(bob).getPosition(1n)).principal).to.equal(STAKE_AMOUNT / 2n);
+      expect((await clientFor(deployer).getLiabilities()).totalPrincipal).to.equal(STAKE_AMOUNT);
+    });
+
+    it("returns pending withdrawals in an emergency withdrawal", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await unstakeAmount(alice, STAKE_AMOUNT / 2n);
+
+      await staking.connect(deployer).pause();
+      await staking.connect(alice).emergencyWithdraw();
+
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT);
+      expect(await staking.getPendingWithdrawalIds(await alice.getAddress())).to.deep.equal([]);
+    });
+  });
+
+  describe("auditors", function () {
+    async function auditorDecrypt(handle: string) {
+      return BigInt(await fhevm.userDecryptEuint(FhevmType.euint64, handle, await staking.getAddress(), bob));
+    }
+
+    it("lets a granted auditor decrypt current and future stake handles until revoked", async function () {
+      await fundRewards(10n * 1_000_000n);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await expect(staking.connect(alice).grantAuditor(await bob.getAddress()))
+        .to.emit(staking, "AuditorGranted")
+        .withArgs(await alice.getAddress(), await bob.getAddress());
+      expect(await staking.getAuditors(await alice.getAddress())).to.deep.equal([await bob.getAddress()]);
+
+      const [principal] = await staking.getStake(await alice.getAddress());
+      expect(await auditorDecrypt(principal)).to.equal(STAKE_AMOUNT);
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      const [updatedPrincipal, rewards] = await staking.getStake(await alice.getAddress());
+      expect(await auditorDecrypt(updatedPrincipal)).to.equal(2n * STAKE_AMOUNT);
+      expect(await auditorDecrypt(rewards)).to.equal(STAKE_AMOUNT / 100n);
+
+      await expect(staking.connect(alice).revokeAuditor(await bob.getAddress())).to.emit(staking, "AuditorRevoked");
+      expect(await staking.getAuditors(await alice.getAddress())).to.deep.equal([]);
+
+      await unstakeAmount(alice, STAKE_AMOUNT);
+      const [principalAfterRevoke] = await staking.getStake(await alice.getAddress());
+      let decryptError: unknown;
+      try {
+        await auditorDecrypt(principalAfterRevoke);
+      } catch (error) {
+        decryptError = error;
+      }
+      expect(decryptError).to.not.equal(undefined);
+    });
+
+    it("rejects invalid, duplicate and unknown auditors", async function () {
+      await expect(staking.connect(alice).grantAuditor(await alice.getAddress())).to.be.revertedWithCustomError(
+        staking,
+        "InvalidAuditor",
+      );
+      await staking.connect(alice).grantAuditor(await bob.getAddress());
+      await expect(staking.connect(alice).grantAuditor(await bob.getAddress())).to.be.revertedWithCustomError(
+        staking,
+        "InvalidAuditor",
+      );
+      await expect(staking.connect(alice).revokeAuditor(await deployer.getAddress())).to.be.revertedWithCustomError(
+        staking,
+        "InvalidAuditor",
+      );
+    });
+  });
+
+  describe("emergency pause", function () {
+    it("lets only pausers stop and resume staking, unstaking and claiming", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await expect(staking.connect(alice).pause()).to.be.revertedWithCustomError(
+        staking,
+        "AccessControlUnauthorizedAccount",
+      );
+      await staking.connect(deployer).grantRole(await staking.PAUSER_ROLE(), await bob.getAddress());
+      await expect(staking.connect(bob).pause()).to.emit(staking, "Paused");
+
+      const encrypted = await fhevm
+        .createEncryptedInput(await staking.getAddress(), await alice.getAddress())
+        .add64(STAKE_AMOUNT)
+        .encrypt();
+      await expect(
+        staking.connect(alice).stake(encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWithCustomError(staking, "EnforcedPause");
+      await expect(
+        staking.connect(alice).unstake(encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWithCustomError(staking, "EnforcedPause");
+      await expect(staking.connect(alice).claimRewards()).to.be.revertedWithCustomError(staking, "EnforcedPause");
+
+      await staking.connect(bob).unpause();
+      await unstakeAmount(alice, STAKE_AMOUNT);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT);
+    });
+
+    it("only allows emergency withdrawals while paused", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await expect(staking.connect(alice).emergencyWithdraw()).to.be.revertedWithCustomError(staking, "ExpectedPause");
+    });
+
+    it("returns all principal, including locked positions, and forfeits rewards", async function () {
+      await fundRewards(10n * 1_000_000n);
+      await stakeAmount(alice, STAKE_AMOUNT);
+      const locked = await fhevm
+        .createEncryptedInput(await staking.getAddress(), await alice.getAddress())
+        .add64(STAKE_AMOUNT / 2n)
+        .encrypt();
+      await staking.connect(alice).stakeLocked(3, locked.handles[0], locked.inputProof);
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      // A second deposit settles the first day of rewards into the flexible position.
+      await stakeAmount(alice, STAKE_AMOUNT / 2n);
+      expect((await decryptStake(alice)).rewards).to.equal(STAKE_AMOUNT / 100n);
+
+      await staking.connect(deployer).pause();
+      await expect(staking.connect(alice).emergencyWithdraw()).to.emit(staking, "EmergencyWithdrawn");
+
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT);
+      expect(await staking.getPositionIds(await alice.getAddress())).to.deep.equal([]);
+      expect((await staking.getStake(await alice.getAddress()))[0]).to.equal(ethers.ZeroHash);
+
+      const { totalPrincipal, totalRewards, rewardReserve } = await clientFor(deployer).getLiabilities();
+      expect(totalPrincipal).to.equal(0n);
+      expect(totalRewards).to.equal(0n);
+      expect(rewardReserve).to.equal(10n * 1_000_000n);
+    });
+  });
+
+  describe("TVL reveal", function () {
+    it("publishes principal plus outstanding rewards through the decryption oracle", async function () {
+      await fundRewards(10n * 1_000_000n);
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await stakeAmount(bob, 20n * 1_000_000n);
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      // Staking again settles Alice's first day of rewards into the running totals.
+      await stakeAmount(alice, 10n * 1_000_000n);
+
+      await expect(staking.connect(bob).requestTvlReveal()).to.emit(staking, "TvlRevealRequested");
+      expect(await staking.revealedTvl()).to.equal(0n);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await staking.revealedTvl()).to.equal(80n * 1_000_000n + STAKE_AMOUNT / 100n);
+      const latestBlock = await ethers.provider.getBlock("latest");
+      expect(await staking.tvlRevealedAt()).to.equal(BigInt(latestBlock!.timestamp));
+    });
+
+    it("rate-limits reveal requests", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      await staking.connect(alice).requestTvlReveal();
+      await expect(staking.connect(bob).requestTvlReveal()).to.be.revertedWithCustomError(staking, "TvlRevealPending");
+
+      await fhevm.awaitDecryptionOracle();
+      const nextRevealAt = await staking.nextTvlRevealAt();
+      await expect(staking.connect(bob).requestTvlReveal())
+        .to.be.revertedWithCustomError(staking, "TvlRevealTooSoon")
+        .withArgs(nextRevealAt);
+
+      await unstakeAmount(alice, 20n * 1_000_000n);
+      await ethers.provider.send("evm_increaseTime", [Number(await staking.TVL_REVEAL_INTERVAL())]);
+      await ethers.provider.send("evm_mine", []);
+
+      await staking.connect(bob).requestTvlReveal();
+      await fhevm.awaitDecryptionOracle();
+      expect(await staking.revealedTvl()).to.equal(30n * 1_000_000n);
+    });
+
+    it("rejects callbacks that do not match the pending request", async function () {
+      await expect(staking.revealTvlCallback(1n, "0x", "0x")).to.be.revertedWithCustomError(
+        staking,
+        "UnknownTvlRequest",
+      );
+    });
+
+    it("lets an unanswered request expire and be issued again", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await staking.connect(alice).requestTvlReveal();
+      const expiredRequest = await staking.queryFilter(staking.filters.TvlRevealRequested());
+      await setNextTimestamp(start + Number(await staking.TVL_REVEAL_INTERVAL()) - 1);
+      await expect(staking.connect(bob).requestTvlReveal()).to.be.revertedWithCustomError(staking, "TvlRevealPending");
+
+      await expect(staking.connect(bob).requestTvlReveal()).to.emit(staking, "TvlRevealRequested");
+      await expect(staking.revealTvlCallback(expiredRequest[0].args.requestId, "0x", "0x"))
+        .to.be.revertedWithCustomError(staking, "UnknownTvlRequest")
+        .withArgs(expiredRequest[0].args.requestId);
+
+      // The oracle's late answer to the expired request is rejected too.
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+      expect(await staking.revealedTvl()).to.equal(0n);
+    });
+  });
+
+  describe("epoch emission", function () {
+    const EPOCH_BUDGET = 7n * 1_000_000n;
+    const REWARD_PER_SHARE_SCALE = 10n ** 18n;
+
+    type ModelStaker = { principal: bigint; rewards: bigint; checkpoint: number; checkpointPrincipal: bigint };
+
+    // Plain bigint model of the emission schedule: every epoch prices its budget against the principal
+    // staked when it started, and each staker is paid on the lowest principal it held through the epoch.
+    // Settlement points and rounding mirror the contract so that rewards can be compared exactly.
+    class EmissionModel {
+      readonly epochs: { rewardPerShare: bigint; accumulated: bigint }[] = [];
+      readonly stakers = new Map<string, ModelStaker>();
+
+      startEpoch() {
+        const totalPrincipal = [...this.stakers.values()].reduce((sum, staker) => sum + staker.principal, 0n);
+        const previous = this.epochs[this.epochs.length - 1];
+        this.epochs.push({
+          rewardPerShare: totalPrincipal === 0n ? 0n : (EPOCH_BUDGET * REWARD_PER_SHARE_SCALE) / totalPrincipal,
+          accumulated: previous ? previous.accumulated + previous.rewardPerShare : 0n,
+        });
+      }
+
+      settle(account: string) {
+        const current = this.epochs.length;
+        const staker = this.stakers.get(account);
+        if (!staker) {
+          this.stakers.set(account, { principal: 0n, rewards: 0n, checkpoint: current, checkpointPrincipal: 0n });
+          return;
+        }
+
+        const [checkpoint, checkpointPrincipal] =
+          staker.checkpoint === 0 ? [1, staker.principal] : [staker.checkpoint, staker.checkpointPrincipal];
+        if (checkpoint < current) {
+          const settled = this.epochs[checkpoint - 1];
+          const laterEpochs = this.epochs[current - 1].accumulated - settled.accumulated - settled.rewardPerShare;
+          staker.rewards +=
+            (checkpointPrincipal * settled.rewardPerShare + staker.principal * laterEpochs) / REWARD_PER_SHARE_SCALE;
+        }
+        if (staker.checkpoint !== current) {
+          staker.checkpoint = current;
+          staker.checkpointPrincipal = staker.principal;
+        }
+      }
+
+      stake(account: string, amount: bigint) {
+        this.settle(account);
+        this.stakers.get(account)!.principal += amount;
+      }
+
+      unstake(account: string, amount: bigint) {
+        this.settle(account);
+        const staker = this.stakers.get(account)!;
+        staker.principal -= amount;
+        if (staker.checkpoint !== 0 && staker.principal < staker.checkpointPrincipal) {
+          staker.checkpointPrincipal = staker.principal;
+        }
+      }
+    }
+
+    async function enableEpochs() {
+      await staking.connect(deployer).setEpochEmission(EPOCH_BUDGET, DAY);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    async function nextEpoch() {
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await staking.startEpoch();
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("splits every epoch's budget pro-rata like the reference model", async function () {
+      const carol = (await ethers.getSigners())[3];
+      await token.connect(carol).mintFree();
+      await token.connect(carol).setOperator(await staking.getAddress(), MAX_OPERATOR_UNTIL);
+
+      const model = new EmissionModel();
+      const stakers = [alice, bob, carol];
+      const addresses = await Promise.all(stakers.map((staker) => staker.getAddress()));
+      const stake = async (index: number, amount: bigint) => {
+        await stakeAmount(stakers[index], amount);
+        model.stake(addresses[index], amount);
+      };
+      const unstake = async (index: number, amount: bigint) => {
+        await unstakeAmount(stakers[index], amount);
+        model.unstake(addresses[index], amount);
+      };
+      const startEpoch = async () => {
+        await nextEpoch();
+        model.startEpoch();
+      };
+
+      await enableEpochs();
+      model.startEpoch();
+
+      // Alice and Bob join during epoch 1, so they only earn from epoch 2 on.
+      await stake(0, 50n * 1_000_000n);
+      await stake(1, 20n * 1_000_000n);
+      await startEpoch();
+      expect((await staking.getEpoch(2)).totalPrincipal).to.equal(70n * 1_000_000n);
+
+      // Carol's deposit waits for epoch 3, Bob's withdrawal lowers his share of epoch 2, and Alice's
+      // top-up does not raise hers.
+      await stake(2, 30n * 1_000_000n);
+      await unstake(1, 10n * 1_000_000n);
+      await stake(0, 10n * 1_000_000n);
+      await startEpoch();
+      await stake(1, 5n * 1_000_000n);
+      await startEpoch();
+      await startEpoch();
+
+      for (let i = 0; i < stakers.length; i++) {
+        await staking.connect(stakers[i]).setAutoCompound(false);
+        model.settle(addresses[i]);
+      }
+
+      let paid = 0n;
+      for (let i = 0; i < stakers.length; i++) {
+        const { principal, rewards } = await decryptStake(stakers[i]);
+        const expected = model.stakers.get(addresses[i])!;
+        expect(principal).to.equal(expected.principal);
+        expect(rewards).to.equal(expected.rewards);
+        expect(rewards).to.be.greaterThan(0n);
+        paid += rewards;
+      }
+      // Four epochs have ended; nothing was staked through the first one.
+      expect(paid).to.be.at.most(3n * EPOCH_BUDGET);
+      expect(paid).to.be.greaterThan(3n * EPOCH_BUDGET - EPOCH_BUDGET / 5n);
+      expect((await clientFor(deployer).getLiabilities()).totalRewards).to.equal(paid);
+    });
+
+    it("stops fixed-rate accrual when the first epoch starts", async function () {
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await ethers.provider.send("evm_increaseTime", [2 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await enableEpochs();
+      const epoch = await staking.getEpoch(1);
+      expect(epoch.totalPrincipal).to.equal(STAKE_AMOUNT);
+      expect(epoch.finalized).to.equal(true);
+
+      // Alice keeps her two days at the fixed rate and, staking alone, the whole first epoch.
+      await nextEpoch();
+      await nextEpoch();
+      await staking.connect(alice).setAutoCompound(false);
+      const { rewards } = await decryptStake(alice);
+      expect(rewards).to.equal((2n * STAKE_AMOUNT) / 100n + 2n * EPOCH_BUDGET);
+    });
+
+    it("guards epoch configuration and progression", async function () {
+      await expect(staking.startEpoch()).to.be.revertedWithCustomError(staking, "EpochEmissionDisabled");
+      await expect(staking.connect(alice).setEpochEmission(EPOCH_BUDGET, DAY)).to.be.revertedWithCustomError(
+        staking,
+        "OwnableUnauthorizedAccount",
+      );
+      await expect(staking.connect(deployer).setEpochEmission(0n, DAY))
+        .to.be.revertedWithCustomError(staking, "InvalidEpochEmission")
+        .withArgs(0n, DAY);
+      await expect(
+        staking.connect(deployer).setEpochEmission(EPOCH_BUDGET, (await staking.MIN_EPOCH_LENGTH()) - 1n),
+      ).to.be.revertedWithCustomError(staking, "InvalidEpochEmission");
+
+      await expect(staking.connect(deployer).setEpochEmission(EPOCH_BUDGET, DAY))
+        .to.emit(staking, "EpochEmissionUpdated")
+        .withArgs(EPOCH_BUDGET, DAY)
+        .and.to.emit(staking, "EpochStarted");
+      await expect(staking.startEpoch()).to.be.revertedWithCustomError(staking, "EpochPending").withArgs(1n);
+      await expect(staking.finalizeEpochCallback(99n, "0x", "0x")).to.be.revertedWithCustomError(
+        staking,
+        "UnknownEpochRequest",
+      );
+
+      await fhevm.awaitDecryptionOracle();
+      const availableAt = (await staking.getEpoch(1)).startedAt + BigInt(DAY);
+      await expect(staking.startEpoch()).to.be.revertedWithCustomError(staking, "EpochTooSoon").withArgs(availableAt);
+
+      // A new budget only applies from the next epoch.
+      await staking.connect(deployer).setEpochEmission(2n * EPOCH_BUDGET, DAY);
+      expect((await staking.getEpoch(1)).budget).to.equal(EPOCH_BUDGET);
+      await nextEpoch();
+      expect(await staking.epochCount()).to.equal(2n);
+      expect((await staking.getEpoch(2)).budget).to.equal(2n * EPOCH_BUDGET);
+      for (const epochId of [0n, 3n]) {
+        await expect(staking.getEpoch(epochId))
+          .to.be.revertedWithCustomError(staking, "UnknownEpoch")
+          .withArgs(epochId);
+      }
+    });
+
+    it("keeps the running epoch's share of merged stakes", async function () {
+      const carol = (await ethers.getSigners())[3];
+      await enableEpochs();
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await stakeAmount(bob, 20n * 1_000_000n);
+      await nextEpoch();
+
+      // Mid-epoch, Alice's stake merges into Bob's and the sum then moves on to Carol, who had none.
+      await staking.connect(alice).transferPosition(0n, await bob.getAddress());
+      await staking.connect(bob).transferPosition(0n, await carol.getAddress());
+      await nextEpoch();
+
+      // The two stakes were the whole of epoch 2, so its budget is paid out in full.
+      await staking.connect(carol).setAutoCompound(false);
+      expect((await decryptStake(carol)).rewards).to.equal(EPOCH_BUDGET);
+      expect((await clientFor(deployer).getLiabilities()).totalRewards).to.equal(EPOCH_BUDGET);
+    });
+
+    it("lets anyone re-request an epoch reveal the oracle never answered", async function () {
+      const REVEAL_TIMEOUT = 3600;
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await expect(staking.retryEpochReveal()).to.be.revertedWithCustomError(staking, "NoPendingEpoch");
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await staking.connect(deployer).setEpochEmission(EPOCH_BUDGET, DAY);
+      await expect(staking.connect(bob).retryEpochReveal())
+        .to.be.revertedWithCustomError(staking, "EpochRevealTooSoon")
+        .withArgs(start + REVEAL_TIMEOUT);
+
+      await setNextTimestamp(start + REVEAL_TIMEOUT);
+      await expect(staking.connect(bob).retryEpochReveal()).to.emit(staking, "EpochRevealRetried");
+      // The late answer to the first request is rejected, and the mock oracle drops the retried one with it.
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+      expect((await staking.getEpoch(1)).finalized).to.equal(false);
+
+      await setNextTimestamp(start + 2 * REVEAL_TIMEOUT);
+      await staking.connect(bob).retryEpochReveal();
+      await fhevm.awaitDecryptionOracle();
+      const epoch = await staking.getEpoch(1);
+      expect(epoch.finalized).to.equal(true);
+      expect(epoch.totalPrincipal).to.equal(STAKE_AMOUNT);
+      await expect(staking.retryEpochReveal()).to.be.revertedWithCustomError(staking, "NoPendingEpoch");
+
+      await nextEpoch();
+      expect(await staking.epochCount()).to.equal(2n);
+    });
+  });
+
+  describe("bonus rewards", function () {
+    const BONUS_RATE = 200;
+    const DAYS_30 = 2;
+    let bonusToken: ERC7984Test;
+
+    beforeEach(async function () {
+      const tokenFactory = await ethers.getContractFactory("ERC7984Test", deployer);
+      bonusToken = (await tokenFactory.deploy()) as ERC7984Test;
+      await bonusToken.waitForDeployment();
+      await bonusToken.connect(deployer).mintFree();
+      await bonusToken.connect(deployer).setOperator(await staking.getAddress(), MAX_OPERATOR_UNTIL);
+    });
+
+    async function fundBonusRewards(amount: bigint) {
+      const encrypted = await encryptFor(deployer, amount);
+      await staking.connect(deployer).fundBonusRewards(encrypted.handles[0], encrypted.inputProof);
+    }
+
+    async function decryptBonusBalance(account: HardhatEthersSigner) {
+      const balance = await bonusToken.confidentialBalanceOf(await account.getAddress());
+      return BigInt(await fhevm.userDecryptEuint(FhevmType.euint64, balance, await bonusToken.getAddress(), account));
+    }
+
+    it("accrues bonus rewards per second from their start and pays them only from the bonus reserve", async function () {
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeAmount(alice, STAKE_AMOUNT);
+
+      // Stakes that predate the bonus earn it from the moment it is switched on.
+      await setNextTimestamp(start + DAY);
+      await staking.connect(deployer).setBonusRewards(await bonusToken.getAddress(), BONUS_RATE);
+      const bonusOwed = (STAKE_AMOUNT * BigInt(BONUS_RATE)) / 20_000n;
+      await fundBonusRewards(bonusOwed / 2n);
+
+      await setNextTimestamp(start + DAY + DAY / 2);
+      await expect(staking.connect(alice).claimBonusRewards(0n)).to.emit(staking, "BonusRewardsClaimed");
+      expect(await decryptBonusBalance(alice)).to.equal(bonusOwed / 2n);
+
+      // The main rewards were settled too but not paid, and the unfunded half of the bonus stays owed.
+      const details = await clientFor(alice).getPosition(0n);
+      expect(details.principal).to.equal(STAKE_AMOUNT);
+      expect(details.rewards.map(({ token, amount }) => ({ token, amount }))).to.deep.equal([
+        { token: await token.getAddress(), amount: STAKE_AMOUNT / 100n },
+        { token: await bonusToken.getAddress(), amount: bonusOwed - bonusOwed / 2n },
+      ]);
+      expect(await decryptBalance(alice)).to.equal(INITIAL_MINT - STAKE_AMOUNT);
+
+      await fundBonusRewards(2n * bonusOwed);
+      await setNextTimestamp(start + 2 * DAY);
+      await staking.connect(alice).claimBonusRewards(0n);
+      expect(await decryptBonusBalance(alice)).to.equal(2n * bonusOwed);
+      expect((await clientFor(alice).getPosition(0n)).rewards[1].amount).to.equal(0n);
+
+      const [, , reserve] = await staking.getBonusRewards();
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, reserve, await staking.getAddress(), deployer)).to.equal(
+        bonusOwed / 2n,
+      );
+    });
+
+    it("boosts locked positions and carries bonus rewards through merges", async function () {
+      await staking.connect(deployer).setBonusRewards(await bonusToken.getAddress(), BONUS_RATE);
+      await fundBonusRewards(10n * 1_000_000n);
+
+      const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(start);
+      await stakeLocked(alice, DAYS_30, STAKE_AMOUNT);
+      await setNextTimestamp(start + 1);
+      await stakeAmount(alice, STAKE_AMOUNT);
+      await setNextTimestamp(start + 2);
+      await stakeAmount(bob, STAKE_AMOUNT);
+
+      await setNextTimestamp(start + DAY);
+      await clientFor(alice).claimBonus(1n);
+      expect((await clientFor(alice).getPosition(1n)).rewards[1].amount).to.equal(0n);
+      await setNextTimestamp(start + DAY + 1);
+      await staking.connect(alice).transferPosition(0n, await bob.getAddress());
+
+      const dailyBonus = (STAKE_AMOUNT * BigInt(BONUS_RATE)) / 10_000n;
+      expect(await decryptBonusBalance(alice)).to.equal((dailyBonus * 12_500n) / 10_000n);
+      // Bob's own stake started a second after alice's flexible one.
+      const merged = await clientFor(bob).getPosition(0n);
+      expect(merged.principal).to.equal(2n * STAKE_AMOUNT);
+      expect(merged.rewards[1].amount).to.equal(dailyBonus + (dailyBonus * BigInt(DAY - 1)) / BigInt(DAY));
+    });
+
+    it("locks in the bonus token and guards its rate and funding", async function () {
+      const bonusAddress = await bonusToken.getAddress();
+      await stakeAmount(alice, STAKE_AMOUNT);
+      expect((await staking.getStakeDetails(await alice.getAddress(), 0n)).rewards).to.have.length(1);
+      const early = await encryptFor(deployer, 1n);
+      await expect(staking.connect(deployer).fundBonusRewards(early.handles[0], early.inputProof))
+        .to.be.revertedWithCustomError(staking, "UnsupportedToken")
+        .withArgs(ethers.ZeroAddress);
+
+      await expect(staking.connect(alice).setBonusRewards(bonusAddress, BONUS_RATE)).to.be.revertedWithCustomError(
+        staking,
+        "OwnableUnauthorizedAccount",
+      );
+      await expect(staking.connect(deployer).setBonusRewards(ethers.ZeroAddress, BONUS_RATE))
+        .to.be.revertedWithCustomError(staking, "UnsupportedToken")
+        .withArgs(ethers.ZeroAddress);
+      await expect(staking.connect(deployer).setBonusRewards(bonusAddress, 10_001))
+        .to.be.revertedWithCustomError(staking, "InvalidRewardRate")
+        .withArgs(10_001);
+
+      const enabledAt = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+      await setNextTimestamp(enabledAt);
+      await expect(staking.connect(deployer).setBonusRewards(bonusAddress, BONUS_RATE))
+        .to.emit(staking, "BonusRewardRateUpdated")
+        .withArgs(bonusAddress, 0, BONUS_RATE, enabledAt);
+      await expect(staking.connect(deployer).setBonusRewards(await token.getAddress(), BONUS_RATE))
+        .to.be.revertedWithCustomError(staking, "UnsupportedToken")
+        .withArgs(await token.getAddress());
+      await staking.connect(deployer).setBonusRewards(bonusAddress, 0);
+      const [bonusTokenAddress, dailyRate] = await staking.getBonusRewards();
+      expect(bonusTokenAddress).to.equal(bonusAddress);
+      expect(dailyRate).to.equal(0n);
+      await expect(staking.connect(bob).claimBonusRewards(0n)).to.be.revertedWithCustomError(staking, "NoRewards");
+    });
+  });
+});
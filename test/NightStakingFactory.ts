@@ -0,0 +1,161 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import type { ERC7984Test, NightStaking, NightStakingFactory } from "../types";
+
+describe("NightStakingFactory", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let stakeToken: ERC7984Test;
+  let rewardToken: ERC7984Test;
+  let factory: NightStakingFactory;
+
+  const STAKE_AMOUNT = 50n * 1_000_000n;
+  const DAY = 86400;
+  const MAX_OPERATOR_UNTIL = (1n << 48n) - 1n;
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const signers = await ethers.getSigners();
+    [deployer, alice] = [signers[0], signers[1]];
+
+    const tokenFactory = await ethers.getContractFactory("ERC7984Test", deployer);
+    stakeToken = (await tokenFactory.deploy()) as ERC7984Test;
+    rewardToken = (await tokenFactory.deploy()) as ERC7984Test;
+
+    // Pools link the reward math library, which the factory's embedded implementation needs too.
+    const rewardsLibrary = await (await ethers.getContractFactory("NightStakingRewards", deployer)).deploy();
+    const factoryFactory = await ethers.getContractFactory("NightStakingFactory", {
+      signer: deployer,
+      libraries: { NightStakingRewards: await rewardsLibrary.getAddress() },
+    });
+    factory = (await factoryFactory.deploy()) as NightStakingFactory;
+    await factory.waitForDeployment();
+  });
+
+  async function createPool(stakingTokenAddress: string, rewardTokenAddress: string, dailyRate: number) {
+    await factory.connect(deployer).createPool(stakingTokenAddress, rewardTokenAddress, dailyRate);
+    const { pool } = await factory.getPool((await factory.poolCount()) - 1n);
+    return ethers.getContractAt("NightStaking", pool);
+  }
+
+  async function decryptBalance(token: ERC7984Test, account: HardhatEthersSigner) {
+    const balance = await token.confidentialBalanceOf(await account.getAddress());
+    return BigInt(await fhevm.userDecryptEuint(FhevmType.euint64, balance, await token.getAddress(), account));
+  }
+
+  async function encryptFor(staking: NightStaking, account: HardhatEthersSigner, amount: bigint) {
+    return fhevm
+      .createEncryptedInput(await staking.getAddress(), await account.getAddress())
+      .add64(amount)
+      .encrypt();
+  }
+
+  it("deploys independent pools and lists them in the registry", async function () {
+    const stakeAddress = await stakeToken.getAddress();
+    const rewardAddress = await rewardToken.getAddress();
+
+    await expect(factory.connect(alice).createPool(stakeAddress, stakeAddress, 100)).to.emit(factory, "PoolCreated");
+    const first = await factory.getPool(0);
+    const second = await createPool(stakeAddress, rewardAddress, 250);
+    const third = await createPool(rewardAddress, rewardAddress, 50);
+
+    expect(await factory.poolCount()).to.equal(3n);
+    expect((await factory.getPools()).map((info) => info.pool)).to.deep.equal([
+      first.pool,
+      await second.getAddress(),
+      await third.getAddress(),
+    ]);
+    expect((await factory.getPoolsByToken(stakeAddress)).map((info) => info.pool)).to.deep.equal([
+      first.pool,
+      await second.getAddress(),
+    ]);
+    expect(await factory.isPool(first.pool)).to.equal(true);
+    expect(await factory.isPool(stakeAddress)).to.equal(false);
+
+    const firstPool = await ethers.getContractAt("NightStaking", first.pool);
+    expect(first.creator).to.equal(await alice.getAddress());
+    expect(await firstPool.owner()).to.equal(await alice.getAddress());
+    expect(await firstPool.hasRole(await firstPool.PAUSER_ROLE(), await alice.getAddress())).to.equal(true);
+    expect(await firstPool.currentRewardRate()).to.equal(100n);
+
+    expect(await second.stakingToken()).to.equal(stakeAddress);
+    expect(await second.rewardToken()).to.equal(rewardAddress);
+    expect(await second.owner()).to.equal(await deployer.getAddress());
+    expect(await second.currentRewardRate()).to.equal(250n);
+    expect(await third.currentRewardRate()).to.equal(50n);
+  });
+
+  it("pays rewards in the pool's reward token and leaves principal in the staking token", async function () {
+    const staking = await createPool(await stakeToken.getAddress(), await rewardToken.getAddress(), 100);
+    const stakingAddress = await staking.getAddress();
+
+    for (const account of [deployer, alice]) {
+      await stakeToken.connect(account).mintFree();
+      await rewardToken.connect(account).mintFree();
+      await stakeToken.connect(account).setOperator(stakingAddress, MAX_OPERATOR_UNTIL);
+      await rewardToken.connect(account).setOperator(stakingAddress, MAX_OPERATOR_UNTIL);
+    }
+
+    const funding = await encryptFor(staking, deployer, 10n * 1_000_000n);
+    await staking.connect(deployer).fundRewards(funding.handles[0], funding.inputProof);
+    expect(await decryptBalance(rewardToken, deployer)).to.equal(90n * 1_000_000n);
+
+    const deposit = await encryptFor(staking, alice, STAKE_AMOUNT);
+    await staking.connect(alice).stake(deposit.handles[0], deposit.inputProof);
+
+    await ethers.provider.send("evm_increaseTime", [DAY]);
+    await ethers.provider.send("evm_mine", []);
+    await staking.connect(alice).claimRewards();
+
+    expect(await decryptBalance(stakeToken, alice)).to.equal(100n * 1_000_000n - STAKE_AMOUNT);
+    expect(await decryptBalance(rewardToken, alice)).to.equal(100n * 1_000_000n + STAKE_AMOUNT / 100n);
+
+    await expect(staking.connect(alice).compound()).to.be.revertedWithCustomError(staking, "CompoundingUnsupported");
+    await expect(staking.connect(alice).setAutoCompound(true)).to.be.revertedWithCustomError(
+      staking,
+      "CompoundingUnsupported",
+    );
+    await expect(staking.connect(deployer).setEarlyUnstakePenalty(500, 7 * 86400)).to.be.revertedWithCustomError(
+      staking,
+      "PenaltyUnsupported",
+    );
+  });
+
+  it("reveals a zero TVL for a pool with its own reward token and nothing staked", async function () {
+    const staking = await createPool(await stakeToken.getAddress(), await rewardToken.getAddress(), 100);
+
+    await expect(staking.requestTvlReveal()).to.emit(staking, "TvlRevealRequested");
+    await fhevm.awaitDecryptionOracle();
+    expect(await staking.tvlRevealedAt()).to.not.equal(0n);
+    expect(await staking.revealedTvl()).to.equal(0n);
+  });
+
+  it("rejects invalid pools and re-initialization", async function () {
+    const stakeAddress = await stakeToken.getAddress();
+
+    await expect(factory.createPool(await alice.getAddress(), stakeAddress, 100)).to.be.revertedWithCustomError(
+      factory,
+      "InvalidToken",
+    );
+    const implementation = await ethers.getContractAt("NightStaking", await factory.implementation());
+    await expect(factory.createPool(stakeAddress, stakeAddress, 10_001)).to.be.revertedWithCustomError(
+      implementation,
+      "InvalidRewardRate",
+    );
+
+    await expect(
+      implementation.initialize(stakeAddress, stakeAddress, 100, await alice.getAddress()),
+    ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+
+    const staking = await createPool(stakeAddress, stakeAddress, 100);
+    await expect(
+      staking.initialize(stakeAddress, stakeAddress, 100, await alice.getAddress()),
+    ).to.be.revertedWithCustomError(staking, "InvalidInitialization");
+  });
+});
@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+import { NightVaultClient, projectGrowth, projectRewards } from "../sdk/src";
+import type { FheAdapter, HandleContractPair } from "../sdk/src";
+import { createHardhatAdapter } from "../sdk/src/hardhat";
+import type { ERC7984Test, NightStaking, NightStakingFactory } from "../types";
+
+describe("NightVaultClient", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let token: ERC7984Test;
+  let staking: NightStaking;
+
+  const INITIAL_MINT = 100n * 1_000_000n;
+  const STAKE_AMOUNT = 50n * 1_000_000n;
+  const DAY = 86400;
+  const DAYS_7 = 1;
+  const DAYS_30 = 2;
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    [deployer, alice] = [signers[0], signers[1]];
+
+    const tokenFactory = await ethers.getContractFactory("ERC7984Test", deployer);
+    token = (await tokenFactory.deploy()) as ERC7984Test;
+    await token.waitForDeployment();
+
+    const rewardsLibrary = await (await ethers.getContractFactory("NightStakingRewards", deployer)).deploy();
+    const factoryFactory = await ethers.getContractFactory("NightStakingFactory", {
+      signer: deployer,
+      libraries: { NightStakingRewards: await rewardsLibrary.getAddress() },
+    });
+    const factory = (await factoryFactory.deploy()) as NightStakingFactory;
+    await factory.waitForDeployment();
+
+    await factory.createPool(await token.getAddress(), await token.getAddress(), 100);
+    const { pool } = await factory.getPool(0);
+    staking = await ethers.getContractAt("NightStaking", pool);
+  });
+
+  function clientFor(account: HardhatEthersSigner) {
+    return new NightVaultClient(
+      { pool: staking.connect(account), stakingToken: token.connect(account), faucet: token.connect(account) },
+      createHardhatAdapter(fhevm, account),
+      account.address,
+    );
+  }
+
+  async function setNextTimestamp(timestamp: number) {
+    await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+  }
+
+  it("mints, authorizes the pool and stakes through either path", async function () {
+    const client = clientFor(alice);
+    await (await client.mint()).wait();
+    expect(await client.getBalance()).to.equal(INITIAL_MINT);
+
+    // The transfer callback needs no operator approval.
+    expect(await client.isAuthorized()).to.equal(false);
+    await (await client.stake(STAKE_AMOUNT / 2n)).wait();
+    expect(await client.lastStakeResult()).to.equal(STAKE_AMOUNT / 2n);
+
+    await (await client.authorize()).wait();
+    expect(await client.isAuthorized()).to.equal(true);
+    await (await client.stake(STAKE_AMOUNT / 2n, { viaOperator: true })).wait();
+
+    const position = await client.getPosition();
+    expect(position.principal).to.equal(STAKE_AMOUNT);
+    expect(position.tier).to.equal(0);
+    expect(position.rewards.map(({ token }) => token)).to.deep.equal([await token.getAddress()]);
+    expect(await client.getBalance()).to.equal(INITIAL_MINT - STAKE_AMOUNT);
+
+    await (await client.unstake(STAKE_AMOUNT * 2n)).wait();
+    expect(await client.lastUnstakeResult()).to.equal(0n);
+    await (await client.unstake(STAKE_AMOUNT)).wait();
+    expect(await client.lastUnstakeResult()).to.equal(STAKE_AMOUNT);
+    expect(await client.getBalance()).to.equal(INITIAL_MINT);
+  });
+
+  it("opens a locked position from the transfer callback, decrypts it and unstakes it once unlocked", async function () {
+    const client = clientFor(alice);
+    await (await client.mint()).wait();
+
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+    await setNextTimestamp(start);
+    await (await client.stake(STAKE_AMOUNT, { tier: DAYS_30 })).wait();
+
+    expect(await staking.getPositionIds(alice.address)).to.deep.equal([1n]);
+    const position = await client.getPosition(1n);
+    expect(position.tier).to.equal(DAYS_30);
+    expect(position.unlockTime).to.equal(BigInt(start + 30 * DAY));
+    expect(position.principal).to.equal(STAKE_AMOUNT);
+    expect((await client.getPosition()).principal).to.equal(0n);
+
+    await setNextTimestamp(start + 30 * DAY);
+    await (await client.unstake(STAKE_AMOUNT, 1n)).wait();
+    expect(await client.lastUnstakeResult()).to.equal(STAKE_AMOUNT);
+    expect((await client.getPosition(1n)).principal).to.equal(0n);
+  });
+
+  it("reports until when a locked position is charged the early-unstake penalty", async function () {
+    await staking.connect(deployer).setEarlyUnstakePenalty(500, 10 * DAY);
+    const client = clientFor(alice);
+    await (await client.mint()).wait();
+
+    const start = (await ethers.provider.getBlock("latest"))!.timestamp + 10;
+    await setNextTimestamp(start);
+    await (await client.stake(STAKE_AMOUNT, { tier: DAYS_7 })).wait();
+
+    // The window outlasts the 7-day lock, so withdrawing as soon as it unlocks still pays the penalty.
+    const position = await client.getPosition(1n);
+    expect(position.penaltyEndsAt).to.equal(BigInt(start + 10 * DAY));
+    expect((await client.getPosition()).penaltyEndsAt).to.equal(0n);
+
+    await setNextTimestamp(start + 7 * DAY);
+    await (await client.unstake(STAKE_AMOUNT, 1n)).wait();
+    expect(await client.lastUnstakeResult()).to.equal((STAKE_AMOUNT * 95n) / 100n);
+  });
+
+  it("reads the whole portfolio in one decryption and moves positions", async function () {
+    await staking.connect(deployer).setUnbondingPeriod(DAY);
+    const client = clientFor(alice);
+    await (await client.mint()).wait();
+    await (await client.stake(STAKE_AMOUNT / 2n)).wait();
+    await (await client.stake(STAKE_AMOUNT / 2n, { tier: DAYS_30 })).wait();
+    await (await client.unstake(STAKE_AMOUNT / 4n)).wait();
+
+    // The wallet balance, both positions and the queued withdrawal share a single decryption request.
+    const requests: HandleContractPair[][] = [];
+    const counting: FheAdapter = {
+      ...client.fhe,
+      decrypt: (handlePairs) => {
+        requests.push(handlePairs);
+        return client.fhe.decrypt(handlePairs);
+      },
+    };
+    const portfolio = await new NightVaultClient(
+      { pool: client.pool, stakingToken: client.stakingToken },
+      counting,
+      alice.address,
+    ).getPortfolio();
+    expect(requests).to.have.lengthOf(1);
+    expect(portfolio.balance).to.equal(INITIAL_MINT - STAKE_AMOUNT);
+    expect(portfolio.autoCompound).to.equal(false);
+    expect(portfolio.flexible.principal).to.equal(STAKE_AMOUNT / 4n);
+    expect(portfolio.positions.map(({ id, tier, principal }) => ({ id, tier, principal }))).to.deep.equal([
+      { id: 1n, tier: DAYS_30, principal: STAKE_AMOUNT / 2n },
+    ]);
+    expect(portfolio.withdrawals.map(({ id, positionId, amount }) => ({ id, positionId, amount }))).to.deep.equal([
+      { id: 1n, positionId: 0n, amount: STAKE_AMOUNT / 4n },
+    ]);
+
+    await (await client.cancelWithdrawal(1n)).wait();
+    expect(await client.getPendingWithdrawals()).to.deep.equal([]);
+    await (await client.movePosition(1n, deployer.address)).wait();
+    expect(await client.getPositions()).to.deep.equal([]);
+    expect((await clientFor(deployer).getPositions()).map(({ id, owner }) => ({ id, owner }))).to.deep.equal([
+      { id: 1n, owner: deployer.address },
+    ]);
+  });
+
+  it("projects exactly what a claim pays out", async function () {
+    const owner = clientFor(deployer);
+    await (await owner.mint()).wait();
+    await (await owner.authorize()).wait();
+    const reserve = await owner.fhe.encrypt64(await staking.getAddress(), deployer.address, 10n * 1_000_000n);
+    await staking.connect(deployer).fundRewards(reserve.handle, reserve.inputProof);
+
+    const client = clientFor(alice);
+    await (await client.mint()).wait();
+    await (await client.stake(STAKE_AMOUNT)).wait();
+
+    const { principal, rewards } = await client.getPosition();
+    const claimAt = Number(rewards[0].lastAccrued) + 3 * DAY + DAY / 2;
+    // Whole-day accrual ignores the half day.
+    const projected = projectRewards(
+      principal,
+      rewards[0].amount,
+      Number(rewards[0].lastAccrued),
+      claimAt,
+      100n,
+      10_000n,
+      false,
+    );
+    expect(projected).to.equal((STAKE_AMOUNT * 3n) / 100n);
+
+    const balanceBefore = await client.getBalance();
+    await setNextTimestamp(claimAt);
+    await (await client.claim()).wait();
+    expect((await client.getBalance()) - balanceBefore).to.equal(projected);
+    expect(await client.lastClaimResult()).to.equal(true);
+
+    const growth = projectGrowth(STAKE_AMOUNT, 100n, 10_000n, 2);
+    expect(growth.simple).to.equal((STAKE_AMOUNT * 102n) / 100n);
+    expect(growth.compounded).to.equal((STAKE_AMOUNT * 10_201n) / 10_000n);
+  });
+});